@@ -1,40 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import {
+  blockCell,
+  blockChunkKey,
+  cellToPosition,
+  chunkKey,
+  IBlockPosition,
+  ICell,
+  positionToCell,
+} from "../../../utils/voxelStore";
+import { BLOCK_ARRAY } from "../../../utils/blockDefinitions";
+import {
+  IActionRejection,
+  isWithinBuildArea,
+  MAX_TERRAIN_SIZE,
+  MAX_TILE_SIZE,
+  MAX_USER_TEXTURES,
+  sanitizeBlock,
+  sanitizeBlockDefinition,
+  sanitizeBuildArea,
+  sanitizeTerrainOptions,
+  sanitizeUserTexture,
+  USER_TEXTURE_IMAGE_PREFIX,
+  validateBlockAction,
+} from "../../../utils/blockValidation";
+import { pngSize } from "../../../utils/texturePackStorage";
+import { generateTerrain } from "../../../utils/terrainGenerator";
+import {
+  addChatMessage,
+  broadcastEphemeral,
+  broadcastToRoom,
+  formatEvent,
+  getMissedEvents,
+  getOrCreateRoom,
+  IRoom,
+  packStorage,
+  roomBuildArea,
+  sendToPlayer,
+  startHeartbeat,
+  storage,
+  toPublicPlayer,
+  touchRoom,
+  uniqueDisplayName,
+} from "../../../utils/roomManager";
 
-interface IBlockPosition {
-  x: number;
-  y: number;
-  z: number;
-  blockType?: string;
-  color?: string;
-  id: string;
-}
-
-interface IPlayerPosition {
-  x: number;
-  y: number;
-  z: number;
-  name: string;
-}
-
-// In-memory store for rooms and their blocks
-// For a production app, you would use a database or Redis
-const rooms: Map<string, {
-  blocks: IBlockPosition[];
-  clients: Set<ReadableStreamDefaultController>;
-  players: Map<string, IPlayerPosition>; // Track connected players by name
-}> = new Map();
-
-// Helper to get or create a room
-function getOrCreateRoom(roomId: string) {
-  if (!rooms.has(roomId)) {
-    rooms.set(roomId, {
-      blocks: [],
-      clients: new Set(),
-      players: new Map()
-    });
-  }
-  return rooms.get(roomId)!;
-}
+// Built-in block types, the server also accepts the room's custom ones in add actions
+const KNOWN_BLOCK_TYPES = new Set(BLOCK_ARRAY.map((blockType) => blockType.id));
 
 // Process client connection for SSE
 export async function GET(
@@ -42,9 +53,15 @@ export async function GET(
   { params }: { params: Promise<{ roomId: string }> }
 ) {
   const { roomId } = await params;
-  // Get player name from query string
-  const playerName = req.nextUrl.searchParams.get('name') || 'Anonymous';
-  console.log(`New client connecting to room: ${roomId}, player: ${playerName}`);
+  // Get the requested display name from query string
+  const requestedName = req.nextUrl.searchParams.get('name') || 'Anonymous';
+  // Session to resume, when the client is reconnecting
+  const requestedSession = req.nextUrl.searchParams.get('session');
+  // Last event the client saw, sent by EventSource on reconnect
+  // (or as a query param when the client had to open a new EventSource)
+  const lastEventId =
+    req.headers.get("last-event-id") || req.nextUrl.searchParams.get("lastEventId");
+  console.log(`New client connecting to room: ${roomId}, player: ${requestedName}`);
   
   // Ensure content type for SSE
   const responseHeaders = {
@@ -54,57 +71,84 @@ export async function GET(
   };
   
   // Create a room if it doesn't exist
-  const room = getOrCreateRoom(roomId);
+  const room = await getOrCreateRoom(roomId);
   
-  // Add player to the room
-  if (!room.players.has(playerName)) {
-    room.players.set(playerName, {
+  // Resume the player's session if it's still in the room, otherwise issue a new one
+  let player = requestedSession ? room.players.get(requestedSession) : undefined;
+  if (!player) {
+    player = {
       x: 0,
       y: 0,
       z: 0,
-      name: playerName
-    });
+      sessionId: uuidv4(),
+      name: uniqueDisplayName(room, requestedName),
+      lastSeen: Date.now(),
+      chunks: new Set()
+    };
+    room.players.set(player.sessionId, player);
     
     // Notify other clients about new player
     broadcastToRoom(roomId, {
       type: "player_joined",
-      name: playerName,
+      sessionId: player.sessionId,
+      name: player.name,
       playerCount: room.players.size
     });
+    await touchRoom(roomId, room);
   }
+  const { sessionId } = player;
+  player.lastSeen = Date.now();
+  // Every connection subscribes to the chunks around its camera again and gets them whole,
+  // so the blocks it missed while away come with them rather than as replayed events
+  player.chunks = new Set();
+  startHeartbeat();
   
-  console.log(`Room ${roomId} has ${room.blocks.length} blocks and ${room.players.size} players`);
+  console.log(`Room ${roomId} has ${room.blocks.size} blocks and ${room.players.size} players`);
   
   // Create a streaming response
   const stream = new ReadableStream({
     start(controller) {
-      // Send initial data
-      const initialData = JSON.stringify({
-        type: "init",
-        blocks: room.blocks,
-        players: Array.from(room.players.values())
-      });
+      // Tell the client who it is before anything else, this frame is not part of the room's sequence
+      controller.enqueue(new TextEncoder().encode(formatEvent(room, {
+        type: "session",
+        sessionId,
+        name: player.name
+      })));
       
-      const encodedData = new TextEncoder().encode(`data: ${initialData}\n\n`);
-      controller.enqueue(encodedData);
-      console.log(`Sent initial data with ${room.blocks.length} blocks and ${room.players.size} players`);
+      const missedEvents = getMissedEvents(room, player, lastEventId);
+      
+      if (missedEvents) {
+        // Resume: replay only the events the client missed
+        missedEvents.forEach((event) => {
+          controller.enqueue(new TextEncoder().encode(event.message));
+        });
+        console.log(`Replayed ${missedEvents.length} missed events after ${lastEventId}`);
+      } else {
+        // Send initial data, tagged with the current sequence so the client can resume from it
+        // Blocks aren't part of it, they are sent per chunk once the client subscribes
+        const initialData = {
+          type: "init",
+          players: Array.from(room.players.values()).map(toPublicPlayer),
+          blockDefinitions: Array.from(room.blockDefinitions.values()),
+          texturePack: room.meta.texturePack || null,
+          buildArea: roomBuildArea(room),
+          textures: Array.from(room.textures.values()),
+          chat: room.chat
+        };
+        
+        controller.enqueue(new TextEncoder().encode(formatEvent(room, initialData, room.seq)));
+        console.log(`Sent initial data with ${room.players.size} players`);
+      }
       
       // Add client to the room
-      room.clients.add(controller);
+      room.clients.set(controller, sessionId);
       
       // Remove client when connection closes
+      // The player stays for a while so the client can resume its session on a new connection,
+      // the heartbeat evicts it once it stops hearing from them
       req.signal.addEventListener("abort", () => {
         room.clients.delete(controller);
-        room.players.delete(playerName);
-        
-        console.log(`Client disconnected from room ${roomId}, ${room.players.size} players remaining`);
-        
-        // Notify other clients about player leaving
-        broadcastToRoom(roomId, {
-          type: "player_left",
-          name: playerName,
-          playerCount: room.players.size
-        });
+        console.log(`Client disconnected from room ${roomId}`);
       });
     }
   });
@@ -114,6 +158,126 @@ export async function GET(
   });
 }
 
+// Check that a set of new blocks fits the room: free cells and unused ids,
+// also among the new blocks themselves
+function findAddConflict(room: IRoom, blocks: IBlockPosition[]): IActionRejection | null {
+  const cells = new Set<string>();
+  const ids = new Set<string>();
+  
+  for (const block of blocks) {
+    const cell = blockCell(block);
+    const key = `${cell.x},${cell.y},${cell.z}`;
+    if (room.blocks.has(cell.x, cell.y, cell.z) || cells.has(key)) {
+      return { reason: "cell_occupied", error: `A block already exists at (${block.x}, ${block.y}, ${block.z})`, status: 409 };
+    }
+    if (room.blocks.hasId(block.id) || ids.has(block.id)) {
+      return { reason: "duplicate_id", error: `A block with id ${block.id} already exists`, status: 409 };
+    }
+    cells.add(key);
+    ids.add(block.id);
+  }
+  
+  return null;
+}
+
+// Expand a fill action into new blocks for every empty cell in the region
+function expandFill(room: IRoom, data: any): IBlockPosition[] {
+  const from = positionToCell(data.from.x, data.from.y, data.from.z);
+  const to = positionToCell(data.to.x, data.to.y, data.to.z);
+  const blocks: IBlockPosition[] = [];
+  
+  for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+    for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+      for (let z = Math.min(from.z, to.z); z <= Math.max(from.z, to.z); z++) {
+        if (room.blocks.has(x, y, z)) continue;
+        
+        blocks.push(sanitizeBlock({
+          ...cellToPosition({ x, y, z }),
+          blockType: data.blockType,
+          color: data.color,
+          id: uuidv4()
+        }));
+      }
+    }
+  }
+  
+  return blocks;
+}
+
+// Expand a generate_terrain action into new blocks for the empty cells of the terrain
+// Returns null when the terrain has more blocks than one action may add
+function expandTerrain(room: IRoom, data: any): IBlockPosition[] | null {
+  const from = positionToCell(data.from.x, data.from.y, data.from.z);
+  const to = positionToCell(data.to.x, data.to.y, data.to.z);
+  const terrain = generateTerrain(
+    sanitizeTerrainOptions(data.terrain),
+    {
+      min: { x: Math.min(from.x, to.x), y: Math.min(from.y, to.y), z: Math.min(from.z, to.z) },
+      max: { x: Math.max(from.x, to.x), y: Math.max(from.y, to.y), z: Math.max(from.z, to.z) },
+    },
+    MAX_TERRAIN_SIZE
+  );
+  if (!terrain) return null;
+  
+  return terrain
+    .filter(block => !room.blocks.getAtPosition(block.x, block.y, block.z))
+    .map(block => sanitizeBlock({ ...block, id: uuidv4() }));
+}
+
+// Save a change already made to the room in memory, taking it back when the write fails
+// Returns the rejection to answer with then, so the client takes back its copy of the change too
+async function persistChange(
+  write: () => Promise<void>,
+  rollback: () => void
+): Promise<IActionRejection | null> {
+  try {
+    await write();
+    return null;
+  } catch (error) {
+    console.error("Error saving a room change:", error);
+    rollback();
+    return { reason: "storage_failed", error: "The change couldn't be saved, try again", status: 503 };
+  }
+}
+
+// Add blocks created on the server and send them to everyone, the sender doesn't know their ids either
+// Returns the rejection when they couldn't be saved
+async function addServerBlocks(
+  roomId: string,
+  room: IRoom,
+  blocks: IBlockPosition[],
+  sender: string
+): Promise<IActionRejection | null> {
+  blocks.forEach(block => room.blocks.add(block));
+  const failure = await persistChange(
+    () => storage.addBlocks(roomId, blocks),
+    () => blocks.forEach(block => room.blocks.removeById(block.id))
+  );
+  if (failure) return failure;
+  await touchRoom(roomId, room);
+  
+  broadcastToRoom(roomId, {
+    type: "fill",
+    blocks,
+    sender
+  }, chunksOf(blocks));
+  return null;
+}
+
+// Keys of the chunks a set of blocks is in, block events only go to players subscribed to them
+function chunksOf(blocks: IBlockPosition[]): Set<string> {
+  return new Set(blocks.map(blockChunkKey));
+}
+
+// Respond to a rejected action with its machine-readable reason
+function rejectAction(rejection: IActionRejection) {
+  console.log(`Rejected action: ${rejection.reason} (${rejection.error})`);
+  return NextResponse.json(
+    { error: rejection.error, reason: rejection.reason },
+    { status: rejection.status }
+  );
+}
+
 // Process block updates
 export async function POST(
   req: NextRequest,
@@ -122,65 +286,460 @@ export async function POST(
   const { roomId } = await params;
   
   try {
-    const data = await req.json();
+    let data: any;
+    try {
+      data = await req.json();
+    } catch {
+      return rejectAction({ reason: "invalid_payload", error: "Body must be valid JSON", status: 400 });
+    }
+    
+    const room = await getOrCreateRoom(roomId);
+    
+    // Validate the payload before changing the room, blocks may use its custom block types
+    const blockTypeIds = new Set([...KNOWN_BLOCK_TYPES, ...room.blockDefinitions.keys()]);
+    const rejection = validateBlockAction(data, blockTypeIds, roomBuildArea(room));
+    if (rejection) return rejectAction(rejection);
+    
     console.log(`Received ${data.action} action for room ${roomId} from ${data.sender || 'unknown'}`);
     
-    const room = getOrCreateRoom(roomId);
+    // Only players connected to the room can change it, the sender is their session id
+    const player = room.players.get(data.sender);
+    if (!player) {
+      return rejectAction({ reason: "unknown_session", error: "Unknown or expired session, reconnect to the room", status: 403 });
+    }
+    player.lastSeen = Date.now();
     
     switch (data.action) {
-      case "add":
+      case "add": {
+        const block = sanitizeBlock(data.block);
+        
+        // Only one block per cell
+        const conflict = findAddConflict(room, [block]);
+        if (conflict) return rejectAction(conflict);
+        
         // Add a new block
-        room.blocks.push(data.block);
-        console.log(`Added block at (${data.block.x}, ${data.block.y}, ${data.block.z}), total blocks: ${room.blocks.length}`);
+        room.blocks.add(block);
+        const failure = await persistChange(
+          () => storage.addBlocks(roomId, [block]),
+          () => room.blocks.removeById(block.id)
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Added block at (${block.x}, ${block.y}, ${block.z}), total blocks: ${room.blocks.size}`);
         
         broadcastToRoom(roomId, {
           type: "add",
-          block: data.block,
+          block,
           sender: data.sender
-        });
+        }, chunksOf([block]));
         break;
+      }
+        
+      case "remove": {
+        if (!room.blocks.hasId(data.blockId)) {
+          return rejectAction({ reason: "block_not_found", error: "Block does not exist", status: 404 });
+        }
         
-      case "remove":
         // Remove a block
-        const initialCount = room.blocks.length;
-        room.blocks = room.blocks.filter(block => block.id !== data.blockId);
-        console.log(`Removed block ${data.blockId}, blocks before: ${initialCount}, after: ${room.blocks.length}`);
+        const initialCount = room.blocks.size;
+        const block = room.blocks.removeById(data.blockId)!;
+        const failure = await persistChange(
+          () => storage.removeBlocks(roomId, [data.blockId]),
+          () => room.blocks.add(block)
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Removed block ${data.blockId}, blocks before: ${initialCount}, after: ${room.blocks.size}`);
         
         broadcastToRoom(roomId, {
           type: "remove",
           blockId: data.blockId,
           sender: data.sender
-        });
+        }, chunksOf([block]));
+        break;
+      }
+        
+      case "add_many": {
+        const blocks: IBlockPosition[] = data.blocks.map(sanitizeBlock);
+        
+        // All or nothing: any conflict rejects the whole batch
+        const conflict = findAddConflict(room, blocks);
+        if (conflict) return rejectAction(conflict);
+        
+        blocks.forEach(block => room.blocks.add(block));
+        const failure = await persistChange(
+          () => storage.addBlocks(roomId, blocks),
+          () => blocks.forEach(block => room.blocks.removeById(block.id))
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Added ${blocks.length} blocks, total blocks: ${room.blocks.size}`);
+        
+        broadcastToRoom(roomId, {
+          type: "add_many",
+          blocks,
+          sender: data.sender
+        }, chunksOf(blocks));
+        break;
+      }
+        
+      case "remove_many": {
+        // Blocks someone else already removed are skipped
+        const removed: IBlockPosition[] = [];
+        for (const blockId of new Set<string>(data.blockIds)) {
+          const block = room.blocks.removeById(blockId);
+          if (block) removed.push(block);
+        }
+        const blockIds = removed.map((block) => block.id);
+        if (blockIds.length === 0) {
+          return rejectAction({ reason: "block_not_found", error: "None of the blocks exist", status: 404 });
+        }
+        
+        const failure = await persistChange(
+          () => storage.removeBlocks(roomId, blockIds),
+          () => removed.forEach(block => room.blocks.add(block))
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Removed ${blockIds.length} blocks, total blocks: ${room.blocks.size}`);
+        
+        broadcastToRoom(roomId, {
+          type: "remove_many",
+          blockIds,
+          sender: data.sender
+        }, chunksOf(removed));
+        return NextResponse.json({ success: true, blockIds });
+      }
+        
+      case "replace_many": {
+        // Removals go first so the additions can use the cells they free, blocks someone
+        // else already removed are skipped
+        const removed: IBlockPosition[] = [];
+        for (const blockId of new Set<string>(data.blockIds)) {
+          const block = room.blocks.removeById(blockId);
+          if (block) removed.push(block);
+        }
+        
+        // All or nothing: any conflict puts the removed blocks back and rejects the whole batch
+        const blocks: IBlockPosition[] = data.blocks.map(sanitizeBlock);
+        const conflict = findAddConflict(room, blocks);
+        if (conflict) {
+          removed.forEach(block => room.blocks.add(block));
+          return rejectAction(conflict);
+        }
+        
+        blocks.forEach(block => room.blocks.add(block));
+        const blockIds = removed.map((block) => block.id);
+        const failure = await persistChange(
+          () => storage.replaceBlocks(roomId, blockIds, blocks),
+          () => {
+            blocks.forEach(block => room.blocks.removeById(block.id));
+            removed.forEach(block => room.blocks.add(block));
+          }
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Replaced ${blockIds.length} blocks with ${blocks.length}, total blocks: ${room.blocks.size}`);
+        
+        broadcastToRoom(roomId, {
+          type: "replace_many",
+          blockIds,
+          blocks,
+          sender: data.sender
+        }, chunksOf([...removed, ...blocks]));
         break;
+      }
         
-      case "clear":
+      case "fill": {
+        const blocks = expandFill(room, data);
+        if (blocks.length === 0) {
+          return NextResponse.json({ success: true, blocks });
+        }
+        
+        const failure = await addServerBlocks(roomId, room, blocks, data.sender);
+        if (failure) return rejectAction(failure);
+        console.log(`Filled ${blocks.length} cells, total blocks: ${room.blocks.size}`);
+        return NextResponse.json({ success: true, blocks });
+      }
+        
+      case "generate_terrain": {
+        // The terrain is generated here from its seed, so it is added as one batch
+        const blocks = expandTerrain(room, data);
+        if (!blocks) {
+          return rejectAction({
+            reason: "batch_too_large",
+            error: `Terrain can't have more than ${MAX_TERRAIN_SIZE} blocks, make it lower or smaller`,
+            status: 413
+          });
+        }
+        // The blocks reach everyone, the sender too, with the broadcast
+        if (blocks.length === 0) {
+          return NextResponse.json({ success: true, blockCount: 0 });
+        }
+        
+        const failure = await addServerBlocks(roomId, room, blocks, data.sender);
+        if (failure) return rejectAction(failure);
+        console.log(`Generated ${blocks.length} terrain blocks, total blocks: ${room.blocks.size}`);
+        return NextResponse.json({ success: true, blockCount: blocks.length });
+      }
+        
+      case "clear": {
         // Clear all blocks
-        room.blocks = [];
+        const cleared = room.blocks.toArray();
+        room.blocks.clear();
+        const failure = await persistChange(
+          () => storage.clearBlocks(roomId),
+          () => cleared.forEach(block => room.blocks.add(block))
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
         broadcastToRoom(roomId, {
           type: "clear"
         });
         break;
+      }
+        
+      case "heartbeat":
+        // Nothing to do, the player's last seen time is already refreshed
+        break;
+        
+      case "subscribe": {
+        // The player gets the blocks of the chunks in the box, and block events touching them
+        const { min, max } = data.chunks as { min: ICell; max: ICell };
+        const chunks = new Set<string>();
+        const added: { chunk: ICell; blocks: IBlockPosition[] }[] = [];
+        for (let x = min.x; x <= max.x; x++) {
+          for (let y = min.y; y <= max.y; y++) {
+            for (let z = min.z; z <= max.z; z++) {
+              const key = chunkKey({ x, y, z });
+              chunks.add(key);
+              if (!player.chunks.has(key)) {
+                added.push({ chunk: { x, y, z }, blocks: room.blocks.inChunk({ x, y, z }) });
+              }
+            }
+          }
+        }
+        player.chunks = chunks;
+        
+        // Sent on the event stream rather than in the response, so events that come after
+        // the snapshot are always applied on top of it
+        if (added.length > 0) {
+          sendToPlayer(room, player.sessionId, {
+            type: "chunks",
+            chunks: added
+          });
+        }
+        break;
+      }
         
       case "update_position":
         // Update player preview position
-        if (data.sender && data.position) {
-          if (room.players.has(data.sender)) {
-            const player = room.players.get(data.sender)!;
-            player.x = data.position.x;
-            player.y = data.position.y;
-            player.z = data.position.z;
-            
-            broadcastToRoom(roomId, {
-              type: "player_moved",
-              name: data.sender,
-              position: data.position
-            });
+        player.x = data.position.x;
+        player.y = data.position.y;
+        player.z = data.position.z;
+        
+        // Sent often and outdated by the next one, so it's kept out of the replay log
+        broadcastEphemeral(roomId, {
+          type: "player_moved",
+          sessionId: player.sessionId,
+          position: data.position
+        });
+        break;
+        
+      case "rename": {
+        // Display names stay unique within the room
+        const name = data.name.trim();
+        if (uniqueDisplayName(room, name, player.sessionId) !== name) {
+          return rejectAction({ reason: "name_taken", error: `The name ${name} is already taken`, status: 409 });
+        }
+        
+        player.name = name;
+        broadcastToRoom(roomId, {
+          type: "player_renamed",
+          sessionId: player.sessionId,
+          name
+        });
+        break;
+      }
+        
+      case "define_block": {
+        const definition = sanitizeBlockDefinition(data.definition);
+        
+        // Built-in block types can't be redefined, custom ones are created or edited
+        if (KNOWN_BLOCK_TYPES.has(definition.id)) {
+          return rejectAction({ reason: "duplicate_id", error: `${definition.id} is a built-in block type`, status: 409 });
+        }
+        
+        const previous = room.blockDefinitions.get(definition.id);
+        room.blockDefinitions.set(definition.id, definition);
+        const failure = await persistChange(
+          () => storage.saveBlockDefinition(roomId, definition),
+          () => {
+            if (previous) room.blockDefinitions.set(definition.id, previous);
+            else room.blockDefinitions.delete(definition.id);
           }
+        );
+        if (failure) return rejectAction(failure);
+        console.log(`Defined block type ${definition.id} in room ${roomId}`);
+        
+        broadcastToRoom(roomId, {
+          type: "block_definition",
+          definition,
+          sender: data.sender
+        });
+        break;
+      }
+        
+      case "delete_block_definition": {
+        const { blockTypeId } = data;
+        const replaceWith: string | null = data.replaceWith || null;
+        if (!room.blockDefinitions.has(blockTypeId)) {
+          return rejectAction({ reason: "definition_not_found", error: `Unknown block type: ${blockTypeId}`, status: 404 });
         }
+        
+        // Placed blocks of the type are removed, or swapped for the replacement type in place
+        const affected = room.blocks.toArray().filter((block) => block.blockType === blockTypeId);
+        const replaced = replaceWith
+          ? affected.map((block) => ({ ...block, blockType: replaceWith }))
+          : [];
+        const affectedIds = affected.map((block) => block.id);
+        affected.forEach((block) => room.blocks.removeById(block.id));
+        replaced.forEach((block) => room.blocks.add(block));
+        const definition = room.blockDefinitions.get(blockTypeId)!;
+        room.blockDefinitions.delete(blockTypeId);
+        
+        // The blocks are saved first, they are put back when the definition can't be removed
+        const failure = await persistChange(
+          async () => {
+            if (affected.length > 0) await storage.replaceBlocks(roomId, affectedIds, replaced);
+            try {
+              await storage.removeBlockDefinition(roomId, blockTypeId);
+            } catch (error) {
+              if (affected.length > 0) {
+                await storage.replaceBlocks(roomId, replaced.map((block) => block.id), affected);
+              }
+              throw error;
+            }
+          },
+          () => {
+            replaced.forEach((block) => room.blocks.removeById(block.id));
+            affected.forEach((block) => room.blocks.add(block));
+            room.blockDefinitions.set(blockTypeId, definition);
+          }
+        );
+        if (failure) return rejectAction(failure);
+        if (affected.length > 0) await touchRoom(roomId, room);
+        console.log(`Deleted block type ${blockTypeId}, ${replaceWith ? `replaced ${affected.length} blocks with ${replaceWith}` : `removed ${affected.length} blocks`}`);
+        
+        broadcastToRoom(roomId, {
+          type: "block_definition_deleted",
+          blockTypeId,
+          replaceWith,
+          sender: data.sender
+        });
         break;
+      }
+        
+      case "upload_texture": {
+        const texture = sanitizeUserTexture(data.texture);
+        
+        // Textures are square tiles, clients scale them to the atlas tile size
+        const size = pngSize(Buffer.from(texture.image.substring(USER_TEXTURE_IMAGE_PREFIX.length), "base64"));
+        if (!size || size.width !== size.height || size.width > MAX_TILE_SIZE) {
+          return rejectAction({ reason: "invalid_payload", error: `Texture must be a square PNG up to ${MAX_TILE_SIZE}px`, status: 400 });
+        }
+        
+        // Uploading a texture with the same name replaces it, new ones count towards the room's limit
+        if (!room.textures.has(texture.name) && room.textures.size >= MAX_USER_TEXTURES) {
+          return rejectAction({ reason: "too_many_textures", error: `Rooms can have up to ${MAX_USER_TEXTURES} uploaded textures`, status: 409 });
+        }
+        
+        const previous = room.textures.get(texture.name);
+        room.textures.set(texture.name, texture);
+        const failure = await persistChange(
+          () => storage.saveTexture(roomId, texture),
+          () => {
+            if (previous) room.textures.set(texture.name, previous);
+            else room.textures.delete(texture.name);
+          }
+        );
+        if (failure) return rejectAction(failure);
+        console.log(`Uploaded texture ${texture.name} to room ${roomId}`);
+        
+        broadcastToRoom(roomId, {
+          type: "texture",
+          texture,
+          sender: data.sender
+        });
+        break;
+      }
+        
+      case "resize_build_area": {
+        const buildArea = sanitizeBuildArea(data.buildArea);
+        
+        // Shrinking can't leave blocks outside the plot, they have to be removed first
+        const outside = room.blocks
+          .toArray()
+          .filter((block) => !isWithinBuildArea(block.x, block.y, block.z, buildArea)).length;
+        if (outside > 0) {
+          return rejectAction({ reason: "blocks_outside_area", error: `${outside} blocks would be outside the new build area, remove them first`, status: 409 });
+        }
+        
+        const previousArea = room.meta.buildArea;
+        room.meta.buildArea = buildArea;
+        const failure = await persistChange(
+          () => storage.saveMeta(roomId, room.meta),
+          () => { room.meta.buildArea = previousArea; }
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Room ${roomId} build area is now ${buildArea.width}x${buildArea.depth}x${buildArea.height}`);
+        
+        broadcastToRoom(roomId, {
+          type: "build_area",
+          buildArea,
+          sender: data.sender
+        });
+        break;
+      }
+        
+      case "set_texture_pack": {
+        const packId: string | null = data.packId;
+        if (packId && !(await packStorage.loadPack(packId))) {
+          return rejectAction({ reason: "unknown_texture_pack", error: `Unknown texture pack: ${packId}`, status: 404 });
+        }
+        
+        // Everyone in the room sees the same textures, new players get the pack with init
+        const previousPack = room.meta.texturePack;
+        room.meta.texturePack = packId;
+        const failure = await persistChange(
+          () => storage.saveMeta(roomId, room.meta),
+          () => { room.meta.texturePack = previousPack; }
+        );
+        if (failure) return rejectAction(failure);
+        await touchRoom(roomId, room);
+        console.log(`Room ${roomId} now uses ${packId ? `texture pack ${packId}` : "the default textures"}`);
+        
+        broadcastToRoom(roomId, {
+          type: "texture_pack",
+          packId,
+          sender: data.sender
+        });
+        break;
+      }
+        
+      case "chat": {
+        const message = addChatMessage(room, player, data.text.trim());
+        
+        broadcastToRoom(roomId, {
+          type: "chat",
+          message
+        });
+        return NextResponse.json({ success: true, message });
+      }
         
       default:
-        return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+        return rejectAction({ reason: "invalid_action", error: "Invalid action", status: 400 });
     }
     
     return NextResponse.json({ success: true });
@@ -189,23 +748,3 @@ export async function POST(
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
 }
-
-// Broadcast updates to all clients in a room
-function broadcastToRoom(roomId: string, data: any) {
-  const room = rooms.get(roomId);
-  if (!room) return;
-  
-  console.log(`Broadcasting to ${room.clients.size} clients in room ${roomId}: ${JSON.stringify(data).substring(0, 100)}...`);
-  
-  const message = `data: ${JSON.stringify(data)}\n\n`;
-  
-  room.clients.forEach(controller => {
-    try {
-      controller.enqueue(new TextEncoder().encode(message));
-    } catch (error) {
-      console.error("Error sending message to client:", error);
-      // Remove broken connections
-      room.clients.delete(controller);
-    }
-  });
-} 
\ No newline at end of file
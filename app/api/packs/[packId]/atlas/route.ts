@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TEXTURE_PACK_ID_PATTERN } from "../../../../utils/blockValidation";
+import { packStorage } from "../../../../utils/roomManager";
+
+// The atlas image of an uploaded pack
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ packId: string }> }
+) {
+  const { packId } = await params;
+  const atlas = TEXTURE_PACK_ID_PATTERN.test(packId) ? await packStorage.loadAtlas(packId) : null;
+  if (!atlas) {
+    return NextResponse.json(
+      { error: `Unknown texture pack: ${packId}`, reason: "unknown_texture_pack" },
+      { status: 404 }
+    );
+  }
+
+  // Packs never change, their id is a hash of their contents
+  return new NextResponse(new Uint8Array(atlas), {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
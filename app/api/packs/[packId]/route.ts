@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TEXTURE_PACK_ID_PATTERN } from "../../../utils/blockValidation";
+import { packStorage } from "../../../utils/roomManager";
+
+// The texture manifest of an uploaded pack, in the same format as /textures.json
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ packId: string }> }
+) {
+  const { packId } = await params;
+  const pack = TEXTURE_PACK_ID_PATTERN.test(packId) ? await packStorage.loadPack(packId) : null;
+  if (!pack) {
+    return NextResponse.json(
+      { error: `Unknown texture pack: ${packId}`, reason: "unknown_texture_pack" },
+      { status: 404 }
+    );
+  }
+
+  // Packs never change, their id is a hash of their contents
+  return NextResponse.json(pack.manifest, {
+    headers: { "Cache-Control": "public, max-age=31536000, immutable" },
+  });
+}
@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_NAME_LENGTH,
+  MAX_TEXTURE_PACK_SIZE,
+  validateTextureManifest,
+} from "../../utils/blockValidation";
+import { packStorage } from "../../utils/roomManager";
+import { pngSize } from "../../utils/texturePackStorage";
+
+function rejectUpload(error: string, status = 400) {
+  return NextResponse.json({ error, reason: "invalid_payload" }, { status });
+}
+
+// List uploaded texture packs, newest first
+export async function GET() {
+  try {
+    const packs = await packStorage.listPacks();
+    packs.sort((a, b) => b.createdAt - a.createdAt);
+    return NextResponse.json({ packs });
+  } catch (error) {
+    console.error("Error listing texture packs:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Upload a texture pack packed in the browser: a name, its manifest and the atlas PNG
+export async function POST(req: NextRequest) {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return rejectUpload("Body must be multipart form data");
+  }
+
+  const name = typeof form.get("name") === "string" ? (form.get("name") as string).trim() : "";
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    return rejectUpload(`Texture pack name must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(String(form.get("manifest")));
+  } catch {
+    return rejectUpload("Texture manifest must be valid JSON");
+  }
+  const rejection = validateTextureManifest(manifest);
+  if (rejection) return rejectUpload(rejection.error, rejection.status);
+
+  const atlasFile = form.get("atlas");
+  if (!(atlasFile instanceof Blob)) {
+    return rejectUpload("Missing atlas image");
+  }
+  if (atlasFile.size > MAX_TEXTURE_PACK_SIZE) {
+    return rejectUpload(`Atlas image can't be larger than ${MAX_TEXTURE_PACK_SIZE / 1024 / 1024}MB`, 413);
+  }
+
+  // The image has to be the atlas the manifest describes
+  const atlas = Buffer.from(await atlasFile.arrayBuffer());
+  const size = pngSize(atlas);
+  if (!size) {
+    return rejectUpload("Atlas must be a PNG image");
+  }
+  if (size.width !== manifest.atlas.width || size.height !== manifest.atlas.height) {
+    return rejectUpload("Atlas image size doesn't match the manifest");
+  }
+
+  try {
+    // Uploading the same pack again gives the same id, so it is stored once
+    const packId = createHash("sha256")
+      .update(atlas)
+      .update(JSON.stringify(manifest.textures))
+      .digest("hex")
+      .substring(0, 16);
+
+    const existing = await packStorage.loadPack(packId);
+    if (existing) {
+      return NextResponse.json({ pack: existing.meta });
+    }
+
+    const { tileSize, width, height } = manifest.atlas;
+    const textures: { [name: string]: number } = { ...manifest.textures };
+    const meta = {
+      id: packId,
+      name,
+      tileSize,
+      textureCount: Object.keys(textures).length,
+      createdAt: Date.now(),
+    };
+    await packStorage.savePack(
+      {
+        meta,
+        manifest: {
+          version: 1,
+          atlas: { source: `/api/packs/${packId}/atlas`, tileSize, width, height },
+          textures,
+        },
+      },
+      atlas
+    );
+    console.log(`Stored texture pack ${packId}: ${name} with ${meta.textureCount} textures`);
+
+    return NextResponse.json({ pack: meta });
+  } catch (error) {
+    console.error("Error storing texture pack:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
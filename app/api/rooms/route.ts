@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_BUILD_AREA,
+  MAX_NAME_LENGTH,
+  sanitizeBuildArea,
+  validateBuildArea,
+} from "../../utils/blockValidation";
+import { createRoom, listRooms } from "../../utils/roomManager";
+
+// List rooms for the lobby, most recently active first
+export async function GET() {
+  try {
+    const rooms = await listRooms();
+    return NextResponse.json({ rooms });
+  } catch (error) {
+    console.error("Error listing rooms:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Create a new named room
+export async function POST(req: NextRequest) {
+  let data: any;
+  try {
+    data = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Body must be valid JSON", reason: "invalid_payload" },
+      { status: 400 }
+    );
+  }
+
+  const name = typeof data?.name === "string" ? data.name.trim() : "";
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `Room name must be 1 to ${MAX_NAME_LENGTH} characters`, reason: "invalid_payload" },
+      { status: 400 }
+    );
+  }
+
+  // The plot size is optional, rooms get the default one
+  if (data.buildArea !== undefined) {
+    const rejection = validateBuildArea(data.buildArea);
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection.error, reason: rejection.reason },
+        { status: rejection.status }
+      );
+    }
+  }
+  const buildArea = data.buildArea ? sanitizeBuildArea(data.buildArea) : DEFAULT_BUILD_AREA;
+
+  try {
+    const { roomId, room } = await createRoom(name, buildArea);
+    console.log(`Created room ${roomId}: ${name}`);
+
+    return NextResponse.json({
+      room: {
+        id: roomId,
+        name: room.meta.name,
+        blockCount: room.blocks.size,
+        playerCount: room.players.size,
+        lastActivity: room.meta.lastActivity,
+        buildArea
+      }
+    });
+  } catch (error) {
+    console.error("Error creating room:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,45 +1,134 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { IBlockFaces, IBlockDefinition } from "../utils/blockDefinitions";
+import {
+  BLOCK_ARRAY,
+  IBlockFaces,
+  IBlockDefinition,
+  IUserTexture,
+  TextureRef
+} from "../utils/blockDefinitions";
 import TextureAtlasPreview from "./TextureAtlasPreview";
+import BlockPreview from "./BlockPreview";
+import { textureName } from "../utils/textureManifest";
+import { textureTileStyle, useTextureManifest } from "./textureTiles";
+import { readTextureUpload } from "../utils/userTextures";
+import { validateBlockDefinition } from "../utils/blockValidation";
 
 interface IBlockDefinitionToolProps {
+  customBlocks: IBlockDefinition[]; // Existing custom blocks that can be edited, duplicated or deleted
+  initialBlock?: IBlockDefinition; // Custom block to open for editing
+  // How many placed blocks use a block type, null when it isn't known (in a room only part of it is loaded)
+  getPlacedCount: (blockTypeId: string) => number | null;
   onClose: () => void;
   onSave: (newBlock: IBlockDefinition) => void;
+  // replaceWith is the block type placed blocks change to, or null to remove them
+  onDelete: (block: IBlockDefinition, replaceWith: string | null) => void;
+  userTextures: IUserTexture[]; // Textures uploaded by the user or the room
+  onUploadTexture: (texture: IUserTexture) => Promise<boolean>; // Resolves to false when the upload was refused
 }
 
-function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
-  const [blockId, setBlockId] = useState<string>("");
-  const [blockName, setBlockName] = useState<string>("");
+const EMPTY_FACES: IBlockFaces = {
+  top: 0,
+  bottom: 0,
+  front: 0,
+  back: 0,
+  left: 0,
+  right: 0
+};
+
+function BlockDefinitionTool({
+  customBlocks,
+  initialBlock,
+  getPlacedCount,
+  onClose,
+  onSave,
+  onDelete,
+  userTextures,
+  onUploadTexture
+}: IBlockDefinitionToolProps) {
+  // Id of the custom block being edited, null when making a new one
+  const [editingId, setEditingId] = useState<string | null>(initialBlock?.id ?? null);
+  const [blockId, setBlockId] = useState<string>(initialBlock?.id ?? "");
+  const [blockName, setBlockName] = useState<string>(initialBlock?.name ?? "");
   const [selectedFace, setSelectedFace] = useState<keyof IBlockFaces | null>(null);
   const [hoveredTextureIndex, setHoveredTextureIndex] = useState<number | null>(null);
-  const [blockFaces, setBlockFaces] = useState<IBlockFaces>({
-    top: 0,
-    bottom: 0,
-    front: 0,
-    back: 0,
-    left: 0,
-    right: 0
-  });
+  const [blockFaces, setBlockFaces] = useState<IBlockFaces>(
+    initialBlock ? { ...initialBlock.faces } : EMPTY_FACES
+  );
+  const [transparent, setTransparent] = useState<boolean>(!!initialBlock?.transparent);
+  // Custom block waiting for the user to confirm its deletion
+  const [deleteTarget, setDeleteTarget] = useState<IBlockDefinition | null>(null);
+  // Block type placed blocks change to when their definition is deleted, "" removes them
+  const [replacementId, setReplacementId] = useState<string>("");
+  // Hidden file input used to pick a PNG to upload as a texture
+  const textureInputRef = useRef<HTMLInputElement>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Why the block can't be saved as it is, shown under the save button
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState<boolean>(false);
   
-  // Constants for texture atlas
-  const CELL_SIZE = 16;
-  const COLS = 64;
-  const ROWS = 32;
-  const TEXTURE_SRC = "/textures.webp";
+  // Texture names and atlas geometry, faces use names when the manifest has one so they survive atlas changes
+  const manifest = useTextureManifest();
   
-  // Handle face selection with hovered texture
-  function handleSelectTextureForFace(textureIndex: number) {
+  function toTextureRef(textureIndex: number) {
+    return textureName(textureIndex, manifest) ?? textureIndex;
+  }
+  
+  // Show a texture as "name (index)", or just the index when it has no name
+  function describeTexture(textureIndex: number | null) {
+    if (textureIndex === null) return "None";
+    const name = textureName(textureIndex, manifest);
+    return name ? `${name} (${textureIndex})` : textureIndex.toString();
+  }
+  
+  // Assign a texture to the selected face
+  function assignTexture(texture: TextureRef) {
     if (selectedFace) {
       // Update the block faces with the selected texture
       setBlockFaces(prev => ({
         ...prev,
-        [selectedFace]: textureIndex
+        [selectedFace]: texture
       }));
     }
   }
   
+  // Handle face selection with hovered texture
+  function handleSelectTextureForFace(textureIndex: number) {
+    assignTexture(toTextureRef(textureIndex));
+  }
+  
+  // Upload a PNG as a texture, it has to be one tile of the atlas in use
+  async function handleUploadTexture(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+    
+    setUploadError(null);
+    let texture: IUserTexture;
+    try {
+      texture = await readTextureUpload(file, manifest?.atlas.tileSize ?? 16);
+    } catch (error) {
+      setUploadError((error as Error).message);
+      return;
+    }
+    
+    if (
+      userTextures.some((existing) => existing.name === texture.name) &&
+      !confirm(`There is already a texture named ${texture.name}. Replace it? Blocks using it will change too.`)
+    ) {
+      return;
+    }
+    
+    setUploading(true);
+    const uploaded = await onUploadTexture(texture);
+    setUploading(false);
+    
+    // Use the new texture right away on the face being edited
+    if (uploaded) assignTexture(texture.name);
+  }
+  
   // Generate code for blockDefinitions.ts
   function generateBlockCode(): string {
     if (!blockId || !blockName) {
@@ -51,12 +140,12 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
     id: "${blockId.toLowerCase()}",
     name: "${blockName}",
     faces: {
-      top: ${blockFaces.top},
-      bottom: ${blockFaces.bottom},
-      front: ${blockFaces.front},
-      back: ${blockFaces.back},
-      left: ${blockFaces.left},
-      right: ${blockFaces.right}
+      top: ${JSON.stringify(blockFaces.top)},
+      bottom: ${JSON.stringify(blockFaces.bottom)},
+      front: ${JSON.stringify(blockFaces.front)},
+      back: ${JSON.stringify(blockFaces.back)},
+      left: ${JSON.stringify(blockFaces.left)},
+      right: ${JSON.stringify(blockFaces.right)}
     }
   },`;
     
@@ -85,29 +174,99 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
       return;
     }
     
+    const texture = toTextureRef(hoveredTextureIndex);
     setBlockFaces({
-      top: hoveredTextureIndex,
-      bottom: hoveredTextureIndex,
-      front: hoveredTextureIndex,
-      back: hoveredTextureIndex,
-      left: hoveredTextureIndex,
-      right: hoveredTextureIndex
+      top: texture,
+      bottom: texture,
+      front: texture,
+      back: texture,
+      left: texture,
+      right: texture
     });
   }
 
+  // Start a new block from blank faces
+  function handleNewBlock() {
+    setEditingId(null);
+    setBlockId("");
+    setBlockName("");
+    setBlockFaces(EMPTY_FACES);
+    setTransparent(false);
+    setSaveError(null);
+  }
+
+  // Open an existing custom block for editing, its id stays the same
+  function handleEditBlock(block: IBlockDefinition) {
+    setEditingId(block.id);
+    setBlockId(block.id);
+    setBlockName(block.name);
+    setBlockFaces({ ...block.faces });
+    setTransparent(!!block.transparent);
+    setSaveError(null);
+  }
+
+  // Start a new block from a copy of an existing one
+  function handleDuplicateBlock(block: IBlockDefinition) {
+    const takenIds = new Set([...BLOCK_ARRAY, ...customBlocks].map((b) => b.id));
+    let id = `${block.id}_copy`;
+    for (let n = 2; takenIds.has(id); n++) {
+      id = `${block.id}_copy_${n}`;
+    }
+    
+    setEditingId(null);
+    setBlockId(id);
+    setBlockName(`${block.name} Copy`);
+    setBlockFaces({ ...block.faces });
+    setTransparent(!!block.transparent);
+    setSaveError(null);
+  }
+
+  // Ask what to do with the placed blocks before deleting a definition
+  function handleRequestDelete(block: IBlockDefinition) {
+    setDeleteTarget(block);
+    setReplacementId("");
+  }
+
+  function handleConfirmDelete() {
+    if (!deleteTarget) return;
+    
+    onDelete(deleteTarget, replacementId || null);
+    if (editingId === deleteTarget.id) handleNewBlock();
+    setDeleteTarget(null);
+  }
+
+  const placedCount = deleteTarget ? getPlacedCount(deleteTarget.id) : 0;
+
   // Handle save button
   function handleSave() {
     if (!blockId || !blockName) {
-      alert("Please enter block ID and name");
+      setSaveError("Please enter block ID and name");
+      return;
+    }
+    
+    const id = blockId.toLowerCase();
+    
+    // New blocks can't take an id that's already in use, existing ones are edited instead
+    if (id !== editingId && [...BLOCK_ARRAY, ...customBlocks].some((b) => b.id === id)) {
+      setSaveError(`A block with the id "${id}" already exists. Open it from the list to edit it.`);
       return;
     }
     
     const newBlock: IBlockDefinition = {
-      id: blockId.toLowerCase(),
+      id,
       name: blockName,
       faces: blockFaces
     };
+    if (transparent) newBlock.transparent = true;
+    
+    // The same checks the room makes, so a block it would refuse isn't saved locally either
+    const rejection = validateBlockDefinition(newBlock);
+    if (rejection) {
+      setSaveError(rejection.error);
+      return;
+    }
     
+    setSaveError(null);
     onSave(newBlock);
   }
   
@@ -115,7 +274,12 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
       <div className="bg-slate-800 rounded-lg shadow-lg p-6 w-[98vw] max-w-7xl max-h-[98vh] overflow-auto">
         <div className="flex justify-between mb-4">
-          <h2 className="text-white text-xl font-bold">Block Definition Tool</h2>
+          <h2 className="text-white text-xl font-bold">
+            Block Definition Tool
+            {editingId && (
+              <span className="text-slate-400 text-base font-normal ml-2">Editing {editingId}</span>
+            )}
+          </h2>
           <button
             onClick={onClose}
             className="text-white hover:text-red-500"
@@ -127,6 +291,57 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left side - Block properties */}
           <div className="space-y-4">
+            {/* Existing custom blocks */}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="block text-white text-sm">Custom Blocks</label>
+                <button
+                  onClick={handleNewBlock}
+                  className="py-1 px-2 bg-slate-700 hover:bg-slate-600 text-white rounded text-xs"
+                >
+                  New Block
+                </button>
+              </div>
+              {customBlocks.length === 0 ? (
+                <p className="text-slate-400 text-sm">No custom blocks yet.</p>
+              ) : (
+                <ul className="max-h-40 overflow-y-auto space-y-1">
+                  {customBlocks.map((block) => (
+                    <li
+                      key={block.id}
+                      className={`flex items-center justify-between px-2 py-1 rounded text-sm ${
+                        editingId === block.id ? "bg-blue-900" : "bg-slate-700"
+                      }`}
+                    >
+                      <span className="text-white truncate">
+                        {block.name} <span className="text-slate-400 text-xs">{block.id}</span>
+                      </span>
+                      <span className="flex space-x-1 ml-2">
+                        <button
+                          onClick={() => handleEditBlock(block)}
+                          className="py-0.5 px-2 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDuplicateBlock(block)}
+                          className="py-0.5 px-2 bg-slate-600 hover:bg-slate-500 text-white rounded text-xs"
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          onClick={() => handleRequestDelete(block)}
+                          className="py-0.5 px-2 bg-red-600 hover:bg-red-700 text-white rounded text-xs"
+                        >
+                          Delete
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            
             <div>
               <label className="block text-white text-sm mb-1">Block ID (for code)</label>
               <input
@@ -134,7 +349,9 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
                 value={blockId}
                 onChange={(e) => setBlockId(e.target.value)}
                 placeholder="E.g., grass_block"
-                className="w-full px-3 py-2 bg-slate-700 text-white rounded"
+                disabled={editingId !== null}
+                title={editingId !== null ? "Placed blocks refer to this id, duplicate the block to use a new one" : undefined}
+                className="w-full px-3 py-2 bg-slate-700 text-white rounded disabled:opacity-60"
               />
             </div>
             
@@ -149,6 +366,16 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
               />
             </div>
             
+            <label className="flex items-center text-white text-sm">
+              <input
+                type="checkbox"
+                checked={transparent}
+                onChange={(e) => setTransparent(e.target.checked)}
+                className="mr-2"
+              />
+              See-through (textures with holes, like leaves)
+            </label>
+            
             <div>
               <label className="block text-white text-sm mb-1">Select Face to Edit</label>
               <div className="grid grid-cols-3 gap-2">
@@ -174,18 +401,21 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
                 className="w-full py-2 px-4 bg-purple-600 hover:bg-purple-700 text-white rounded"
                 disabled={hoveredTextureIndex === null}
               >
-                Set All Faces to Hovered Texture ({hoveredTextureIndex !== null ? hoveredTextureIndex : "None"})
+                Set All Faces to Hovered Texture ({describeTexture(hoveredTextureIndex)})
               </button>
             </div>
             
             <div className="mt-6 pt-4 border-t border-slate-600">
               <h3 className="text-white font-medium mb-2">Block Preview</h3>
+              <div className="mb-4">
+                <BlockPreview
+                  faces={blockFaces}
+                  selectedFace={selectedFace}
+                  onSelectFace={setSelectedFace}
+                />
+              </div>
               <div className="flex flex-wrap gap-4">
                 {(Object.keys(blockFaces) as Array<keyof IBlockFaces>).map((face) => {
-                  const index = blockFaces[face];
-                  const col = index % COLS;
-                  const row = Math.floor(index / COLS);
-                  
                   return (
                     <div key={face} className="text-center">
                       <div 
@@ -200,13 +430,9 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
                         <div 
                           style={{
                             position: "absolute",
-                            width: "64px", // 4x the texture size (16px)
-                            height: "64px", // 4x the texture size (16px)
-                            backgroundImage: `url('${TEXTURE_SRC}')`,
-                            backgroundSize: `${COLS * CELL_SIZE * 4}px`, // 4x scaling
-                            backgroundPosition: `-${col * CELL_SIZE * 4}px -${row * CELL_SIZE * 4}px`,
-                            backgroundRepeat: "no-repeat",
-                            imageRendering: "pixelated"
+                            width: "64px",
+                            height: "64px",
+                            ...textureTileStyle(blockFaces[face], manifest, 64)
                           }}
                         />
                       </div>
@@ -222,7 +448,7 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
                 onClick={handleSave}
                 className="flex-1 py-2 px-4 bg-green-600 hover:bg-green-700 text-white rounded"
               >
-                Save Block Definition
+                {editingId ? "Save Changes" : "Save Block Definition"}
               </button>
               <button
                 onClick={handleExportToClipboard}
@@ -237,10 +463,11 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
                 Cancel
               </button>
             </div>
+            {saveError && <p className="text-red-400 text-xs mt-2">{saveError}</p>}
             
             <div className="text-xs text-slate-400 mt-2">
               <p>Tip: Click on a texture in the atlas to assign it to the selected face.</p>
-              <p>Hovered texture: {hoveredTextureIndex !== null ? hoveredTextureIndex : "None"}</p>
+              <p>Hovered texture: {describeTexture(hoveredTextureIndex)}</p>
             </div>
           </div>
           
@@ -258,14 +485,57 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
               }}
             >
               <TextureAtlasPreview 
-                src={TEXTURE_SRC} 
                 cellSize={16}
-                cols={64}
-                rows={32}
                 onHoverChange={(index) => setHoveredTextureIndex(index)}
+                onSelect={(index) => handleSelectTextureForFace(index)}
               />
             </div>
             
+            {/* Textures uploaded by the user or the room */}
+            <div className="bg-slate-900 p-3 rounded mt-2">
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-white text-sm">Uploaded Textures</label>
+                <button
+                  onClick={() => textureInputRef.current?.click()}
+                  disabled={uploading}
+                  className="py-1 px-2 bg-slate-700 hover:bg-slate-600 text-white rounded text-xs disabled:opacity-50"
+                  title={`A ${manifest?.atlas.tileSize ?? 16}x${manifest?.atlas.tileSize ?? 16} PNG, named after the file`}
+                >
+                  {uploading ? "Uploading..." : "Upload PNG"}
+                </button>
+                <input
+                  ref={textureInputRef}
+                  type="file"
+                  accept="image/png"
+                  onChange={handleUploadTexture}
+                  className="hidden"
+                />
+              </div>
+              {userTextures.length === 0 ? (
+                <p className="text-slate-400 text-xs">
+                  Upload {manifest?.atlas.tileSize ?? 16}x{manifest?.atlas.tileSize ?? 16} PNGs for textures the atlas doesn't have, like a logo.
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {userTextures.map((texture) => (
+                    <button
+                      key={texture.name}
+                      onClick={() => assignTexture(texture.name)}
+                      className={`w-8 h-8 border rounded overflow-hidden ${
+                        selectedFace && blockFaces[selectedFace] === texture.name
+                          ? "border-blue-500 ring-2 ring-blue-500"
+                          : "border-slate-600 hover:border-white"
+                      }`}
+                      title={selectedFace ? `${texture.name}, click to set the ${selectedFace} face` : texture.name}
+                    >
+                      <div style={{ width: "32px", height: "32px", ...textureTileStyle(texture.name, manifest, 32) }} />
+                    </button>
+                  ))}
+                </div>
+              )}
+              {uploadError && <p className="text-red-400 text-xs mt-2">{uploadError}</p>}
+            </div>
+            
             {selectedFace && (
               <div className="bg-slate-700 p-2 rounded text-white text-sm mt-2">
                 <p>Currently editing: <span className="font-bold capitalize">{selectedFace}</span> face</p>
@@ -275,6 +545,54 @@ function BlockDefinitionTool({ onClose, onSave }: IBlockDefinitionToolProps) {
           </div>
         </div>
       </div>
+      
+      {/* Delete confirmation */}
+      {deleteTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-slate-800 rounded-lg shadow-lg p-6 w-96 max-w-full">
+            <h3 className="text-white font-medium mb-2">Delete {deleteTarget.name}?</h3>
+            {placedCount !== 0 ? (
+              <div className="mb-4">
+                <p className="text-slate-300 text-sm mb-2">
+                  {placedCount === null
+                    ? "Placed blocks may use this definition. What should happen to them?"
+                    : `${placedCount} placed block(s) use this definition. What should happen to them?`}
+                </p>
+                <select
+                  value={replacementId}
+                  onChange={(e) => setReplacementId(e.target.value)}
+                  className="w-full px-3 py-2 bg-slate-700 text-white rounded"
+                >
+                  <option value="">Remove them</option>
+                  {[...BLOCK_ARRAY, ...customBlocks]
+                    .filter((block) => block.id !== deleteTarget.id)
+                    .map((block) => (
+                      <option key={block.id} value={block.id}>
+                        Replace them with {block.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            ) : (
+              <p className="text-slate-300 text-sm mb-4">No placed blocks use this definition.</p>
+            )}
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setDeleteTarget(null)}
+                className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmDelete}
+                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { IBlockFaces } from "../utils/blockDefinitions";
+import { createBlockModel, FACE_ORDER, IBlockModel } from "../utils/textureLoader";
+import { useTextureManifest } from "./textureTiles";
+
+interface IBlockPreviewProps {
+  faces: IBlockFaces;
+  selectedFace: keyof IBlockFaces | null;
+  onSelectFace: (face: keyof IBlockFaces) => void;
+  size?: number;
+}
+
+// Tint for the selected face, so it stands out while keeping its texture visible
+const SELECTED_EMISSIVE = 0x2255ff;
+
+// How far the pointer may move between down and up for it to count as a click, not a rotation
+const CLICK_TOLERANCE = 4;
+
+// A rotatable 3D view of a block, rendered with the same model as placed blocks
+function BlockPreview({ faces, selectedFace, onSelectFace, size = 220 }: IBlockPreviewProps) {
+  const mountRef = useRef<HTMLDivElement>(null);
+  const meshRef = useRef<THREE.Mesh | null>(null);
+  const selectedFaceRef = useRef<keyof IBlockFaces | null>(selectedFace);
+  const onSelectFaceRef = useRef(onSelectFace);
+  const [hoveredFace, setHoveredFace] = useState<keyof IBlockFaces | null>(null);
+  // Changes with the texture pack
+  const manifest = useTextureManifest();
+
+  selectedFaceRef.current = selectedFace;
+  onSelectFaceRef.current = onSelectFace;
+
+  // Set up the scene once
+  useEffect(() => {
+    const mount = mountRef.current;
+    if (!mount) return;
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x1e293b); // Matches the tool's slate background
+
+    const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 100);
+    camera.position.set(1.8, 1.4, 2.2);
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setSize(size, size);
+    renderer.setPixelRatio(window.devicePixelRatio);
+    mount.appendChild(renderer.domElement);
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.25;
+    controls.enablePan = false;
+    controls.minDistance = 1.5;
+    controls.maxDistance = 6;
+
+    // Same lighting as the world, so the preview looks like a placed block
+    scene.add(new THREE.AmbientLight(0xffffff, 0.5));
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    directionalLight.position.set(5, 10, 7.5);
+    scene.add(directionalLight);
+
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+    scene.add(mesh);
+    meshRef.current = mesh;
+
+    // Find the face under the pointer
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    function faceAt(event: PointerEvent): keyof IBlockFaces | null {
+      const rect = renderer.domElement.getBoundingClientRect();
+      pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+      pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+      raycaster.setFromCamera(pointer, camera);
+
+      const hit = raycaster.intersectObject(mesh)[0];
+      if (!hit || !hit.face) return null;
+      // Each side of the box is two triangles, in FACE_ORDER
+      return FACE_ORDER[Math.floor(hit.faceIndex! / 2)];
+    }
+
+    // Dragging rotates the block, a click without dragging selects the face
+    let downPosition: { x: number; y: number } | null = null;
+    function handlePointerDown(event: PointerEvent) {
+      downPosition = { x: event.clientX, y: event.clientY };
+    }
+    function handlePointerUp(event: PointerEvent) {
+      if (!downPosition) return;
+      const moved = Math.hypot(event.clientX - downPosition.x, event.clientY - downPosition.y);
+      downPosition = null;
+      if (moved > CLICK_TOLERANCE) return;
+
+      const face = faceAt(event);
+      if (face) onSelectFaceRef.current(face);
+    }
+    function handlePointerMove(event: PointerEvent) {
+      setHoveredFace(faceAt(event));
+    }
+    function handlePointerLeave() {
+      setHoveredFace(null);
+    }
+
+    const canvas = renderer.domElement;
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointerup", handlePointerUp);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerleave", handlePointerLeave);
+
+    let animationId: number;
+    function animate() {
+      animationId = requestAnimationFrame(animate);
+      controls.update();
+      renderer.render(scene, camera);
+    }
+    animate();
+
+    return () => {
+      cancelAnimationFrame(animationId);
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointerup", handlePointerUp);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerleave", handlePointerLeave);
+      controls.dispose();
+      mesh.geometry.dispose();
+      disposeHighlights(mesh);
+      meshRef.current = null;
+      renderer.dispose();
+      mount.removeChild(canvas);
+    };
+  }, [size]);
+
+  // Rebuild the model whenever a face's texture or the texture pack changes
+  useEffect(() => {
+    let cancelled = false;
+
+    createBlockModel(faces).then((model) => {
+      const mesh = meshRef.current;
+      if (cancelled || !mesh) {
+        model.geometry.dispose();
+        return;
+      }
+
+      mesh.geometry.dispose();
+      disposeHighlights(mesh);
+      showModel(mesh, model);
+      highlightFace(mesh, selectedFaceRef.current);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [faces.top, faces.bottom, faces.front, faces.back, faces.left, faces.right, manifest]);
+
+  // Tint the selected face
+  useEffect(() => {
+    if (meshRef.current) highlightFace(meshRef.current, selectedFace);
+  }, [selectedFace]);
+
+  return (
+    <div className="inline-block">
+      <div
+        ref={mountRef}
+        className="rounded overflow-hidden border border-slate-600 cursor-pointer"
+        style={{ width: size, height: size }}
+      />
+      <div className="text-xs text-slate-400 mt-1 capitalize">
+        {hoveredFace ? `${hoveredFace} face, click to select` : "Drag to rotate, click a face to select it"}
+      </div>
+    </div>
+  );
+}
+
+// Show a block model, the mesh gets tinted copies of the shared atlas materials after the
+// originals so a face can be highlighted without changing the blocks in the world
+function showModel(mesh: THREE.Mesh, model: IBlockModel) {
+  const highlights = model.materials.map((material) => {
+    const highlight = material.clone() as THREE.MeshLambertMaterial;
+    highlight.emissive.setHex(SELECTED_EMISSIVE);
+    return highlight;
+  });
+
+  mesh.geometry = model.geometry;
+  mesh.material = [...model.materials, ...highlights];
+  mesh.userData = {
+    sharedCount: model.materials.length,
+    groupMaterials: model.geometry.groups.map((group) => group.materialIndex ?? 0),
+  };
+}
+
+// Draw the selected face with the tinted copy of its material
+function highlightFace(mesh: THREE.Mesh, face: keyof IBlockFaces | null) {
+  const { sharedCount, groupMaterials } = mesh.userData;
+  if (!groupMaterials) return;
+
+  mesh.geometry.groups.forEach((group, side) => {
+    group.materialIndex = groupMaterials[side] + (FACE_ORDER[side] === face ? sharedCount : 0);
+  });
+}
+
+// Free the tinted copies, the shared atlas materials and their textures stay
+function disposeHighlights(mesh: THREE.Mesh) {
+  if (!Array.isArray(mesh.material)) return;
+  mesh.material.slice(mesh.userData.sharedCount ?? 0).forEach((material) => material.dispose());
+}
+
+export default BlockPreview;
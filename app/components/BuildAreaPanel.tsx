@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import {
+  IBuildArea,
+  MAX_BUILD_SIZE,
+  MIN_BUILD_SIZE,
+  validateBuildArea,
+} from "../utils/blockValidation";
+
+interface IBuildAreaPanelProps {
+  buildArea: IBuildArea; // Size in use
+  shared: boolean; // Whether resizing changes the plot for everyone in the room
+  onApply: (buildArea: IBuildArea) => Promise<boolean>; // Resolves to false when the size wasn't applied
+  onClose: () => void;
+}
+
+type Dimension = "width" | "depth" | "height";
+
+const DIMENSIONS: { key: Dimension; label: string }[] = [
+  { key: "width", label: "Width (x)" },
+  { key: "depth", label: "Depth (z)" },
+  { key: "height", label: "Height (y)" },
+];
+
+function BuildAreaPanel({ buildArea, shared, onApply, onClose }: IBuildAreaPanelProps) {
+  // Kept as text while typing, so fields can be emptied
+  const [sizes, setSizes] = useState<{ [key in Dimension]: string }>({
+    width: String(buildArea.width),
+    depth: String(buildArea.depth),
+    height: String(buildArea.height),
+  });
+  const [unbounded, setUnbounded] = useState<boolean>(!!buildArea.unbounded);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState<boolean>(false);
+
+  async function handleApply(e: React.FormEvent) {
+    e.preventDefault();
+
+    const area: IBuildArea = {
+      width: Number(sizes.width),
+      depth: Number(sizes.depth),
+      height: Number(sizes.height),
+    };
+    if (unbounded) area.unbounded = true;
+    const rejection = validateBuildArea(area);
+    if (rejection) {
+      setError(rejection.error);
+      return;
+    }
+
+    setError(null);
+    setApplying(true);
+    try {
+      await onApply(area);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-slate-800 p-6 rounded-lg shadow-lg z-50 w-[24rem] max-w-full">
+      <h3 className="text-white font-medium mb-2">Build Area</h3>
+      <p className="text-slate-400 text-xs mb-4">
+        {shared
+          ? "The plot size is the same for everyone in this room."
+          : "The size of the plot you can build on."}{" "}
+        Blocks outside a smaller plot have to be removed before shrinking it. An open world
+        only limits the height, blocks load around the camera as it moves.
+      </p>
+
+      <form onSubmit={handleApply}>
+        <div className="flex space-x-2 mb-4">
+          {DIMENSIONS.map(({ key, label }) => (
+            <label key={key} className="flex-1 text-slate-300 text-xs">
+              {label}
+              <input
+                type="number"
+                min={MIN_BUILD_SIZE}
+                max={MAX_BUILD_SIZE}
+                value={sizes[key]}
+                disabled={unbounded && key !== "height"}
+                onChange={(e) => setSizes({ ...sizes, [key]: e.target.value })}
+                className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded text-sm disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center text-slate-300 text-sm mb-4">
+          <input
+            type="checkbox"
+            checked={unbounded}
+            onChange={(e) => setUnbounded(e.target.checked)}
+            className="mr-2"
+          />
+          Open world
+        </label>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-700"
+          >
+            Close
+          </button>
+          <button
+            type="submit"
+            disabled={applying}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default BuildAreaPanel;
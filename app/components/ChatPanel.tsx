@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { IChatMessage } from "../utils/roomManager";
+import { MAX_CHAT_LENGTH } from "../utils/blockValidation";
+
+interface IChatPanelProps {
+  messages: IChatMessage[];
+  ownSessionId: string;
+  onSend: (text: string) => Promise<boolean>; // Resolves to false when the message wasn't sent
+}
+
+function ChatPanel({ messages, ownSessionId, onSend }: IChatPanelProps) {
+  const [collapsed, setCollapsed] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>("");
+  const [sending, setSending] = useState<boolean>(false);
+  // Messages already seen, anything after them counts as unread while collapsed
+  const [seenCount, setSeenCount] = useState<number>(messages.length);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const unreadCount = collapsed ? Math.max(0, messages.length - seenCount) : 0;
+
+  // Keep the newest message in view while the panel is open
+  useEffect(() => {
+    if (collapsed) return;
+    setSeenCount(messages.length);
+
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages, collapsed]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || sending) return;
+
+    setSending(true);
+    const sent = await onSend(text);
+    setSending(false);
+
+    // Keep the draft so it can be retried
+    if (sent) setDraft("");
+  }
+
+  function formatTime(timestamp: number) {
+    return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  }
+
+  return (
+    <div className="absolute bottom-4 right-4 w-80 bg-slate-800 bg-opacity-90 rounded-lg shadow-lg z-40">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex justify-between items-center px-3 py-2 text-white text-sm font-medium"
+      >
+        <span>
+          Chat
+          {unreadCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 bg-blue-600 rounded-full text-xs">
+              {unreadCount}
+            </span>
+          )}
+        </span>
+        <span className="text-slate-400">{collapsed ? "▲" : "▼"}</span>
+      </button>
+
+      {!collapsed && (
+        <div className="px-3 pb-3">
+          <div ref={listRef} className="h-48 overflow-y-auto mb-2 text-sm space-y-1">
+            {messages.length === 0 ? (
+              <p className="text-slate-400">No messages yet, say hi!</p>
+            ) : (
+              messages.map((message) => (
+                <div key={message.id} className="text-slate-200 break-words">
+                  <span className="text-slate-500 text-xs mr-1">{formatTime(message.timestamp)}</span>
+                  <span
+                    className={`font-medium mr-1 ${
+                      message.sessionId === ownSessionId ? "text-green-400" : "text-blue-300"
+                    }`}
+                  >
+                    {message.name}:
+                  </span>
+                  {message.text}
+                </div>
+              ))
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Type a message..."
+              maxLength={MAX_CHAT_LENGTH}
+              className="flex-grow min-w-0 px-2 py-1 bg-slate-700 text-white rounded-l text-sm"
+            />
+            <button
+              type="submit"
+              disabled={sending || !draft.trim()}
+              className="bg-blue-600 text-white px-3 rounded-r hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              Send
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ChatPanel;
@@ -7,62 +7,305 @@ import {
   BLOCK_ARRAY,
   BLOCK_TYPES,
   IBlockDefinition,
+  IUserTexture,
 } from "../utils/blockDefinitions";
-import { createBlockMaterials } from "../utils/textureLoader";
+import { createBlockModel, IBlockModel, releaseUnusedAtlases } from "../utils/textureLoader";
+import { setTexturePack, setUserTextures } from "../utils/textureManifest";
+import { textureTileStyle, useTextureManifest } from "./textureTiles";
+import {
+  loadSavedTextures,
+  mergeUserTextures,
+  saveTextures,
+} from "../utils/userTextures";
+import {
+  exportPalette,
+  findIdCollisions,
+  loadSavedBlocks,
+  mergeBlockDefinitions,
+  parsePalette,
+  removeSavedBlocks,
+  resolveIdCollisions,
+  saveBlocks,
+} from "../utils/blockPalette";
+import {
+  buildAreaBounds,
+  DEFAULT_BUILD_AREA,
+  IActionRejection,
+  IBuildArea,
+  isWithinBuildArea,
+  MAX_BATCH_SIZE,
+  MAX_TERRAIN_SIZE,
+} from "../utils/blockValidation";
 import TextureAtlasPreview from "./TextureAtlasPreview";
 import BlockDefinitionTool from "./BlockDefinitionTool";
+import RoomBrowser from "./RoomBrowser";
+import TexturePackPanel from "./TexturePackPanel";
+import BuildAreaPanel from "./BuildAreaPanel";
+import TerrainPanel from "./TerrainPanel";
+import ChatPanel from "./ChatPanel";
+import type { IChatMessage } from "../utils/roomManager";
+import {
+  blockCell,
+  blockChunkKey,
+  cellToPosition,
+  CHUNK_SIZE,
+  chunkKey,
+  chunkOf,
+  ICell,
+  IBlockPosition,
+  IRegion,
+  positionToCell,
+  VoxelStore,
+} from "../utils/voxelStore";
+import { IVoxelHit, raycastVoxels } from "../utils/voxelRaycast";
+import { ChunkMesher, colorBlockModel } from "../utils/chunkMesher";
+import { generateTerrain, ITerrainOptions } from "../utils/terrainGenerator";
+import {
+  clipboardRegion,
+  copyRegion,
+  IClipboard,
+  mirrorClipboard,
+  placeClipboard,
+  regionBetween,
+  regionSize,
+  rotateClipboard,
+} from "../utils/blockSelection";
+import {
+  CommandHistory,
+  IBlockCommand,
+  invertCommand,
+  isEmptyCommand,
+  resolveCommand,
+} from "../utils/commandHistory";
 import { useRouter, useSearchParams } from "next/navigation";
 import { v4 as uuidv4 } from "uuid";
 import { TextGeometry } from "three/examples/jsm/geometries/TextGeometry.js";
 import { FontLoader, Font } from "three/examples/jsm/loaders/FontLoader.js";
 
-interface IBlock {
-  position: THREE.Vector3;
-  color?: string;
-  id: string;
-  blockType?: string; // ID of the block type
-}
-
-interface IBlockPosition {
-  x: number;
-  y: number;
-  z: number;
-  blockType?: string;
-  color?: string;
-  id: string;
-}
-
 interface IColorOption {
   name: string;
   value: string;
 }
 
 interface IPlayer {
+  sessionId: string;
   name: string;
   x: number;
   y: number;
   z: number;
 }
 
+// How often we tell the server we're still connected (it evicts players after 60s of silence)
+const HEARTBEAT_INTERVAL = 20000;
+
+// Most chat messages we keep around, the server sends the recent ones on join
+const CHAT_HISTORY_LIMIT = 200;
+
+// How far away blocks can be hovered and built on, in cells
+const MAX_PICK_DISTANCE = 200;
+
+// How many chunks around the camera's target are loaded in an open world, along x and z
+const VIEW_DISTANCE = 4;
+
+// Chunks the client loads with the camera's target in center: the whole build area,
+// or the chunks within the view distance of center in an open world
+function viewChunkBox(center: ICell, area: IBuildArea): IRegion {
+  const bounds = buildAreaBounds(area);
+  if (!area.unbounded) {
+    return { min: chunkOf(bounds.min), max: chunkOf(bounds.max) };
+  }
+
+  return {
+    min: { x: center.x - VIEW_DISTANCE, y: chunkOf(bounds.min).y, z: center.z - VIEW_DISTANCE },
+    max: { x: center.x + VIEW_DISTANCE, y: chunkOf(bounds.max).y, z: center.z + VIEW_DISTANCE },
+  };
+}
+
+function isChunkInBox(chunk: ICell, box: IRegion) {
+  return (
+    chunk.x >= box.min.x && chunk.x <= box.max.x &&
+    chunk.y >= box.min.y && chunk.y <= box.max.y &&
+    chunk.z >= box.min.z && chunk.z <= box.max.z
+  );
+}
+
+// Cells the green base covers: the build area, or the loaded chunks in an open world
+function groundBounds(center: ICell, area: IBuildArea): IRegion {
+  if (!area.unbounded) return buildAreaBounds(area);
+
+  const { min, max } = viewChunkBox(center, area);
+  return {
+    min: { x: min.x * CHUNK_SIZE, y: 0, z: min.z * CHUNK_SIZE },
+    max: { x: (max.x + 1) * CHUNK_SIZE - 1, y: area.height - 1, z: (max.z + 1) * CHUNK_SIZE - 1 },
+  };
+}
+
+// Cells of the green base, the layer just below y=0 under the ground bounds
+function isBaseCell(cell: ICell, ground: IRegion) {
+  return (
+    cell.y === -1 &&
+    cell.x >= ground.min.x && cell.x <= ground.max.x &&
+    cell.z >= ground.min.z && cell.z <= ground.max.z
+  );
+}
+
+// Grid lines on top of the base, between the cells of the ground bounds
+function createGridLines({ min, max }: IRegion): THREE.LineSegments {
+  const points: THREE.Vector3[] = [];
+
+  for (let x = min.x; x <= max.x + 1; x++) {
+    points.push(new THREE.Vector3(x, 0, min.z), new THREE.Vector3(x, 0, max.z + 1));
+  }
+  for (let z = min.z; z <= max.z + 1; z++) {
+    points.push(new THREE.Vector3(min.x, 0, z), new THREE.Vector3(max.x + 1, 0, z));
+  }
+
+  return new THREE.LineSegments(
+    new THREE.BufferGeometry().setFromPoints(points),
+    new THREE.LineBasicMaterial({ color: 0x888888 })
+  );
+}
+
+// Split a list into batches small enough for one batch action
+function toBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += MAX_BATCH_SIZE) {
+    batches.push(items.slice(start, start + MAX_BATCH_SIZE));
+  }
+  return batches;
+}
+
+// Geometry of the placement preview when it isn't showing a block type's model
+const UNIT_BOX_GEOMETRY = new THREE.BoxGeometry(1, 1, 1);
+
+// Wireframe box like the placement preview's, fit to a region with fitOutline
+function createOutline(color: number): THREE.LineSegments {
+  return new THREE.LineSegments(
+    new THREE.EdgesGeometry(UNIT_BOX_GEOMETRY),
+    new THREE.LineBasicMaterial({ color })
+  );
+}
+
+// Stretch an outline around a region of cells, slightly larger to avoid z-fighting
+function fitOutline(outline: THREE.Object3D, { min, max }: IRegion) {
+  outline.scale.set(max.x - min.x + 1.02, max.y - min.y + 1.02, max.z - min.z + 1.02);
+  outline.position.set((min.x + max.x + 1) / 2, (min.y + max.y + 1) / 2, (min.z + max.z + 1) / 2);
+}
+
+// Selected blocks move one cell per key press
+const SELECTION_MOVES: { [key: string]: ICell } = {
+  ArrowLeft: { x: -1, y: 0, z: 0 },
+  ArrowRight: { x: 1, y: 0, z: 0 },
+  ArrowUp: { x: 0, y: 0, z: -1 },
+  ArrowDown: { x: 0, y: 0, z: 1 },
+  PageUp: { x: 0, y: 1, z: 0 },
+  PageDown: { x: 0, y: -1, z: 0 },
+};
+
+// Whether a key event comes from a text field, so typing doesn't move or edit anything
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT" ||
+    target.isContentEditable
+  );
+}
+
+// Hue (0-1) for a player's wireframe, label and list entry
+function playerHue(sessionId: string) {
+  return (
+    Math.abs(sessionId.split("").reduce((a, b) => a + b.charCodeAt(0), 0) % 100) /
+    100
+  );
+}
+
 function MinecraftBuilder() {
   const mountRef = useRef<HTMLDivElement>(null);
-  const [blocks, setBlocks] = useState<IBlock[]>([]);
+  // Placed blocks indexed by cell and id, drawn as one mesh per chunk
+  const blockStoreRef = useRef<VoxelStore>(new VoxelStore());
+  const chunkMesherRef = useRef<ChunkMesher | null>(null);
+  const [blockCount, setBlockCount] = useState<number>(0);
+  // The local user's own block commands for undo/redo
+  const historyRef = useRef<CommandHistory>(new CommandHistory());
   const [selectedColor, setSelectedColor] = useState<string>("red");
-  const [selectedBlockType, setSelectedBlockType] = useState<string>("grass");
-  const [blockMaterialsCache, setBlockMaterialsCache] = useState<{
-    [key: string]: THREE.MeshLambertMaterial[];
+  const [selectedBlockType, setSelectedBlockType] = useState<string>(
+    BLOCK_TYPES.GRASS_BLOCK.id
+  );
+  const [blockModelsCache, setBlockModelsCache] = useState<{
+    [key: string]: IBlockModel;
+  }>({});
+  // Mirror of blockModelsCache for callbacks that outlive a render (SSE handlers)
+  const blockModelsRef = useRef<{
+    [key: string]: IBlockModel;
   }>({});
   const [showTextureAtlas, setShowTextureAtlas] = useState<boolean>(false);
   const [showBlockDefinitionTool, setShowBlockDefinitionTool] =
     useState<boolean>(false);
   const [customBlocks, setCustomBlocks] = useState<IBlockDefinition[]>([]);
+  // Custom block opened in the block definition tool for editing
+  const [editingBlock, setEditingBlock] = useState<IBlockDefinition | undefined>();
+  // Texture names, for the block icons of definitions that use them
+  const textureManifest = useTextureManifest();
+  // Texture pack in use (null for the default textures), set by the room when collaborating
+  const [texturePackId, setTexturePackId] = useState<string | null>(null);
+  const [showTexturePacks, setShowTexturePacks] = useState<boolean>(false);
+  // Size of the plot, set by the room when collaborating, in state (for rendering) and in a ref (for callbacks)
+  const [buildArea, setBuildArea] = useState<IBuildArea>(DEFAULT_BUILD_AREA);
+  const buildAreaRef = useRef<IBuildArea>(DEFAULT_BUILD_AREA);
+  const [showBuildArea, setShowBuildArea] = useState<boolean>(false);
+  const [showTerrain, setShowTerrain] = useState<boolean>(false);
+  // Box selection, and the corner a Shift+drag started from while it's being dragged out
+  const [selection, setSelection] = useState<IRegion | null>(null);
+  const selectionRef = useRef<IRegion | null>(null);
+  const selectionStartRef = useRef<ICell | null>(null);
+  const selectionOutlineRef = useRef<THREE.LineSegments | null>(null);
+  // Why the last change to the selected blocks was refused
+  const [selectionError, setSelectionError] = useState<string | null>(null);
+  // Blocks copied or cut from a selection
+  const [clipboard, setClipboard] = useState<IClipboard | null>(null);
+  const clipboardRef = useRef<IClipboard | null>(null);
+  // Set while the room hasn't answered a change to the selected blocks, further changes wait for it
+  const selectionPendingRef = useRef<boolean>(false);
+  // Blocks being pasted, shown as a ghost at the cursor until a right-click places them
+  const [pasting, setPasting] = useState<boolean>(false);
+  const pasteRef = useRef<{
+    clipboard: IClipboard;
+    ghost: ChunkMesher;
+    outline: THREE.LineSegments;
+    anchor: ICell | null; // Cell the clipboard's min corner goes in
+  } | null>(null);
+  // Meshes the terrain being previewed, null when there's no preview
+  const terrainPreviewRef = useRef<ChunkMesher | null>(null);
+  // Chunk the camera's target is over (y is always 0), blocks are loaded around it
+  const [viewChunk, setViewChunk] = useState<ICell>({ x: 0, y: 0, z: 0 });
+  const viewChunkRef = useRef<ICell>({ x: 0, y: 0, z: 0 });
+  const groundBoundsRef = useRef<IRegion>(buildAreaBounds(DEFAULT_BUILD_AREA));
+  // Textures uploaded by the user or the room, in state (for rendering) and in a ref (for callbacks)
+  const [uploadedTextures, setUploadedTextures] = useState<IUserTexture[]>([]);
+  const uploadedTexturesRef = useRef<IUserTexture[]>([]);
+  // Hidden file input used to pick a palette file to import
+  const paletteInputRef = useRef<HTMLInputElement>(null);
   const [roomId, setRoomId] = useState<string>("");
   const [isCollaborative, setIsCollaborative] = useState<boolean>(false);
   const [showShareDialog, setShowShareDialog] = useState<boolean>(false);
+  const [showRoomBrowser, setShowRoomBrowser] = useState<boolean>(false);
   const [userName, setUserName] = useState<string>("");
+  // Session id issued by the server on connect, and the unique display name it gave us
+  const sessionIdRef = useRef<string>("");
+  const [displayName, setDisplayName] = useState<string>("");
   const [connectedPlayers, setConnectedPlayers] = useState<IPlayer[]>([]);
   const [showPlayersList, setShowPlayersList] = useState<boolean>(false);
+  const [chatMessages, setChatMessages] = useState<IChatMessage[]>([]);
+  // Goes up on every connect, the chunks have to be subscribed to again
+  const [sessionVersion, setSessionVersion] = useState<number>(0);
+  // Chunks the server sent us, and the box we last subscribed to (as JSON)
+  const loadedChunksRef = useRef<Set<string>>(new Set());
+  const subscriptionRef = useRef<string | null>(null);
   const sseClientRef = useRef<EventSource | null>(null);
+  // Drops the current SSE connection and opens a new one
+  const reconnectRef = useRef<(() => void) | null>(null);
   const syncingRef = useRef<boolean>(false);
   const playerWireframesRef = useRef<Map<string, THREE.LineSegments>>(new Map());
   // For WASD movement
@@ -111,37 +354,72 @@ function MinecraftBuilder() {
 
     console.log(`Connecting to room: ${roomId} as ${userName}`);
 
+    // Sessions and undo history belong to a room, start without them
+    sessionIdRef.current = "";
+    historyRef.current = new CommandHistory();
+    setChatMessages([]);
+    loadedChunksRef.current = new Set();
+    subscriptionRef.current = null;
+    const baseSseUrl = `/api/building/${roomId}?name=${encodeURIComponent(userName)}`;
+    // Id of the last event we received, used to resume without missing events
+    let lastEventId = "";
+    let reconnectTimeout: NodeJS.Timeout | null = null;
+
     // Create SSE connection
-    const sseUrl = `/api/building/${roomId}?name=${encodeURIComponent(userName)}`;
-    const eventSource = new EventSource(sseUrl);
-    sseClientRef.current = eventSource;
-
-    // Handle incoming events
-    eventSource.onmessage = (event) => {
-      try {
-        console.log(`Received SSE event: ${event.data.substring(0, 100)}...`);
-        const data = JSON.parse(event.data);
-        handleSseEvent(data);
-      } catch (error) {
-        console.error("Error parsing SSE message:", error);
+    function connect() {
+      // Resume our session and pick up from the last event we saw
+      let sseUrl = baseSseUrl;
+      if (sessionIdRef.current) {
+        sseUrl += `&session=${encodeURIComponent(sessionIdRef.current)}`;
       }
-    };
+      if (lastEventId) {
+        sseUrl += `&lastEventId=${encodeURIComponent(lastEventId)}`;
+      }
+      const eventSource = new EventSource(sseUrl);
+      sseClientRef.current = eventSource;
+
+      // Handle incoming events
+      eventSource.onmessage = (event) => {
+        try {
+          console.log(`Received SSE event: ${event.data.substring(0, 100)}...`);
+          if (event.lastEventId) lastEventId = event.lastEventId;
+          const data = JSON.parse(event.data);
+          handleSseEvent(data);
+        } catch (error) {
+          console.error("Error parsing SSE message:", error);
+        }
+      };
 
-    eventSource.onopen = () => {
-      console.log("SSE connection opened");
-    };
+      eventSource.onopen = () => {
+        console.log("SSE connection opened");
+      };
 
-    eventSource.onerror = (error) => {
-      console.error("SSE connection error:", error);
-      // Attempt to reconnect after a delay
-      setTimeout(() => {
-        if (sseClientRef.current) {
-          sseClientRef.current.close();
-          sseClientRef.current = new EventSource(sseUrl);
-        }
-      }, 3000);
+      eventSource.onerror = (error) => {
+        console.error("SSE connection error:", error);
+        // The browser's own retry would reuse this URL, which may not carry our session yet,
+        // so close it and reconnect after a delay with our session and the last event id we saw
+        eventSource.close();
+        if (reconnectTimeout) clearTimeout(reconnectTimeout);
+        reconnectTimeout = setTimeout(() => {
+          if (sseClientRef.current === eventSource) {
+            connect();
+          }
+        }, 3000);
+      };
+    }
+
+    connect();
+
+    reconnectRef.current = () => {
+      sseClientRef.current?.close();
+      connect();
     };
 
+    // Let the server know we're still here, even while idle
+    const heartbeatInterval = setInterval(() => {
+      sendBlockUpdate("heartbeat", {});
+    }, HEARTBEAT_INTERVAL);
+
     // Start position reporting interval
     if (positionReportIntervalRef.current === null) {
       positionReportIntervalRef.current = setInterval(() => {
@@ -170,6 +448,13 @@ function MinecraftBuilder() {
     }
 
     return () => {
+      reconnectRef.current = null;
+      clearInterval(heartbeatInterval);
+
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
+
       if (sseClientRef.current) {
         sseClientRef.current.close();
         sseClientRef.current = null;
@@ -201,107 +486,210 @@ function MinecraftBuilder() {
     }
 
     switch (data.type) {
-      case "init":
-        // Load initial blocks
-        const initialBlocks = data.blocks.map((blockPos: IBlockPosition) => ({
-          position: new THREE.Vector3(blockPos.x, blockPos.y, blockPos.z),
-          color: blockPos.color,
-          blockType: blockPos.blockType,
-          id: blockPos.id,
-        }));
-
-        // Clear existing blocks
-        blocks.forEach((block) => {
-          const blockMesh = scene.children.find(
-            (obj) => obj.userData.id === block.id
-          ) as THREE.Mesh;
-          if (blockMesh) scene.remove(blockMesh);
-        });
-
-        // Add initial blocks
-        initialBlocks.forEach((block: IBlock) => {
-          addBlockToScene(block);
-        });
+      case "session":
+        // The server tells us our session id and display name on every connect
+        sessionIdRef.current = data.sessionId;
+        setDisplayName(data.name);
+        // The server forgets our chunks on connect
+        subscriptionRef.current = null;
+        setSessionVersion((version) => version + 1);
+        break;
 
-        setBlocks(initialBlocks);
+      case "init": {
+        // Blocks come per chunk once we subscribe, drop the ones we have
+        clearBlocksFromScene();
+        loadedChunksRef.current = new Set();
         
         // Setup connected players
         if (data.players) {
-          setConnectedPlayers(data.players.filter((p: IPlayer) => p.name !== userName));
+          const otherPlayers = data.players.filter(
+            (p: IPlayer) => p.sessionId !== sessionIdRef.current
+          );
+          setConnectedPlayers(otherPlayers);
           
           // Remove any existing wireframes
-          playerWireframesRef.current.forEach((wireframe) => {
-            scene.remove(wireframe);
+          Array.from(playerWireframesRef.current.keys()).forEach((sessionId) => {
+            removePlayerWireframeAndLabel(sessionId);
           });
-          playerWireframesRef.current.clear();
           
           // Create wireframes for other players
-          data.players.forEach((player: IPlayer) => {
-            if (player.name !== userName) {
-              createPlayerWireframe(player);
-            }
+          otherPlayers.forEach((player: IPlayer) => {
+            createPlayerWireframe(player);
           });
         }
+
+        if (data.chat) {
+          setChatMessages(data.chat);
+        }
+
+        // Everyone in the room builds on the room's plot, with the room's texture pack
+        applyBuildArea(data.buildArea || DEFAULT_BUILD_AREA);
+        applyTexturePack(data.texturePack || null);
+
+        // The room's uploaded textures replace any we had, plus our saved ones it doesn't have yet
+        const roomTextures: IUserTexture[] = data.textures || [];
+        const unsharedTextures = loadSavedTextures().filter(
+          (saved) => !roomTextures.some((texture) => texture.name === saved.name)
+        );
+        applyUserTextures([...roomTextures, ...unsharedTextures], true);
+        if (unsharedTextures.length > 0) {
+          setTimeout(() => shareUserTextures(unsharedTextures), 0);
+        }
+
+        // The room's custom block types replace any we had, plus our saved ones it doesn't have yet
+        const roomBlocks: IBlockDefinition[] = data.blockDefinitions || [];
+        const unsharedBlocks = loadSavedBlocks().filter(
+          (saved) => !roomBlocks.some((block) => block.id === saved.id)
+        );
+        applyBlockDefinitions([...roomBlocks, ...unsharedBlocks], true);
+
+        // Share those with the room once this event is handled (nothing is sent while syncing)
+        if (unsharedBlocks.length > 0) {
+          setTimeout(() => shareBlockDefinitions(unsharedBlocks), 0);
+        }
         break;
+      }
 
-      case "add":
-        // Skip if we're the sender to avoid duplicates
-        if (data.sender === userName) {
+      case "chunks":
+        // Snapshots of the chunks we subscribed to, they replace what we had in them
+        data.chunks.forEach(({ chunk, blocks }: { chunk: ICell; blocks: IBlockPosition[] }) => {
+          removeBlocksFromScene(blockStoreRef.current.inChunk(chunk).map((block) => block.id));
+          addBlocksToScene(blocks);
+          loadedChunksRef.current.add(chunkKey(chunk));
+        });
+        break;
+
+      case "block_definition":
+        // Skip if we're the sender, we applied it once the server accepted it
+        if (data.sender === sessionIdRef.current) {
           syncingRef.current = false;
           return;
         }
 
-        // Add a new block
-        const newBlock = {
-          position: new THREE.Vector3(data.block.x, data.block.y, data.block.z),
-          color: data.block.color,
-          blockType: data.block.blockType,
-          id: data.block.id,
-        };
+        applyBlockDefinitions([data.definition]);
+        break;
+
+      case "block_definition_deleted":
+        // Skip if we're the sender, we applied it once the server accepted it
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
+        }
+
+        removeBlockDefinition(data.blockTypeId, data.replaceWith);
+        break;
+
+      case "texture":
+        // Skip if we're the sender, we applied it once the server accepted it
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
+        }
+
+        applyUserTextures([data.texture]);
+        break;
+
+      case "texture_pack":
+        // Skip if we're the sender, we applied it once the server accepted it
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
+        }
+
+        applyTexturePack(data.packId);
+        break;
+
+      case "build_area":
+        // Skip if we're the sender, we applied it once the server accepted it
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
+        }
+
+        applyBuildArea(data.buildArea);
+        break;
 
-        // Check if the block already exists
-        if (!blocks.some((b) => b.id === newBlock.id)) {
-          addBlockToScene(newBlock);
-          setBlocks((prev) => [...prev, newBlock]);
+      case "add":
+        // Skip if we're the sender to avoid duplicates
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
         }
+
+        // Add a new block (ignored if it already exists)
+        addBlocksToScene(inLoadedChunks([data.block]));
         break;
 
       case "remove":
         // Skip if we're the sender
-        if (data.sender === userName) {
+        if (data.sender === sessionIdRef.current) {
           syncingRef.current = false;
           return;
         }
 
         // Remove a block
-        const blockToRemove = scene.children.find(
-          (obj) => obj.userData.id === data.blockId
-        ) as THREE.Mesh;
+        removeBlockFromScene(data.blockId);
+        break;
+
+      case "add_many":
+        // Skip if we're the sender, we already added these
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
+        }
+
+        addBlocksToScene(inLoadedChunks(data.blocks));
+        break;
+
+      case "fill": {
+        // Everyone applies fills, the blocks are created on the server
+        // (only the ones in loaded chunks are shown)
+        addBlocksToScene(inLoadedChunks(data.blocks));
+
+        // Ours (like generated terrain) can be undone once we know the ids,
+        // all of it, including blocks in chunks we don't have loaded
+        if (data.sender === sessionIdRef.current) {
+          historyRef.current.record({ added: data.blocks, removed: [] });
+        }
+        break;
+      }
+
+      case "remove_many":
+        // Skip if we're the sender
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
+        }
+
+        removeBlocksFromScene(data.blockIds);
+        break;
 
-        if (blockToRemove) {
-          scene.remove(blockToRemove);
-          setBlocks((prev) => prev.filter((b) => b.id !== data.blockId));
+      case "replace_many":
+        // Skip if we're the sender
+        if (data.sender === sessionIdRef.current) {
+          syncingRef.current = false;
+          return;
         }
+
+        removeBlocksFromScene(data.blockIds);
+        addBlocksToScene(inLoadedChunks(data.blocks));
         break;
 
       case "clear":
         // Clear all blocks
-        blocks.forEach((block) => {
-          const blockMesh = scene.children.find(
-            (obj) => obj.userData.id === block.id
-          ) as THREE.Mesh;
-          if (blockMesh) scene.remove(blockMesh);
-        });
-
-        setBlocks([]);
+        clearBlocksFromScene();
+        break;
+        
+      case "chat":
+        setChatMessages(prev => [...prev, data.message].slice(-CHAT_HISTORY_LIMIT));
         break;
         
       case "player_joined":
-        if (data.name !== userName) {
+        if (data.sessionId !== sessionIdRef.current) {
           // Add player to connected players list
           setConnectedPlayers(prev => {
-            if (!prev.some(p => p.name === data.name)) {
-              const newPlayer = { name: data.name, x: 0, y: 0, z: 0 };
+            if (!prev.some(p => p.sessionId === data.sessionId)) {
+              const newPlayer = { sessionId: data.sessionId, name: data.name, x: 0, y: 0, z: 0 };
               createPlayerWireframe(newPlayer);
               return [...prev, newPlayer];
             }
@@ -313,21 +701,37 @@ function MinecraftBuilder() {
       case "player_left":
         // Remove player from connected players list
         setConnectedPlayers(prev => {
-          const players = prev.filter(p => p.name !== data.name);
+          const players = prev.filter(p => p.sessionId !== data.sessionId);
           
           // Remove player wireframe and label
-          removePlayerWireframeAndLabel(data.name);
+          removePlayerWireframeAndLabel(data.sessionId);
           
           return players;
         });
         break;
         
+      case "player_renamed":
+        if (data.sessionId === sessionIdRef.current) {
+          setDisplayName(data.name);
+        } else {
+          setConnectedPlayers(prev =>
+            prev.map(p => (p.sessionId === data.sessionId ? { ...p, name: data.name } : p))
+          );
+          
+          const label = playerLabelsRef.current.get(data.sessionId);
+          if (label) label.innerText = data.name;
+        }
+        break;
+        
       case "player_moved":
-        if (data.name !== userName) {
+        if (data.sessionId !== sessionIdRef.current) {
           // Update player position
           setConnectedPlayers(prev => {
+            const player = prev.find(p => p.sessionId === data.sessionId);
+            if (!player) return prev;
+            
             const updated = prev.map(p => {
-              if (p.name === data.name) {
+              if (p.sessionId === data.sessionId) {
                 return { 
                   ...p, 
                   x: data.position.x, 
@@ -339,8 +743,8 @@ function MinecraftBuilder() {
             });
             
             // Update wireframe
-            if (playerWireframesRef.current.has(data.name)) {
-              const wireframe = playerWireframesRef.current.get(data.name)!;
+            if (playerWireframesRef.current.has(data.sessionId)) {
+              const wireframe = playerWireframesRef.current.get(data.sessionId)!;
               wireframe.position.set(
                 data.position.x,
                 data.position.y,
@@ -350,7 +754,7 @@ function MinecraftBuilder() {
             } else {
               // Create wireframe if it doesn't exist
               createPlayerWireframe({ 
-                name: data.name, 
+                ...player,
                 x: data.position.x, 
                 y: data.position.y, 
                 z: data.position.z 
@@ -372,22 +776,18 @@ function MinecraftBuilder() {
     if (!scene) return;
     
     // Remove existing wireframe if present
-    if (playerWireframesRef.current.has(player.name)) {
-      const oldWireframe = playerWireframesRef.current.get(player.name)!;
+    if (playerWireframesRef.current.has(player.sessionId)) {
+      const oldWireframe = playerWireframesRef.current.get(player.sessionId)!;
       scene.remove(oldWireframe);
-      playerWireframesRef.current.delete(player.name);
+      playerWireframesRef.current.delete(player.sessionId);
     }
     
     // Create a slightly larger wireframe (1.01 vs 1.05)
     const wireframeGeometry = new THREE.BoxGeometry(1.05, 1.05, 1.05);
     const edges = new THREE.EdgesGeometry(wireframeGeometry);
     
-    // Get a random color based on player name
-    const color = new THREE.Color().setHSL(
-      Math.abs(player.name.split('').reduce((a, b) => a + b.charCodeAt(0), 0) % 100) / 100,
-      0.8,
-      0.5
-    );
+    // Get a random color based on player session
+    const color = new THREE.Color().setHSL(playerHue(player.sessionId), 0.8, 0.5);
     
     const wireframeMaterial = new THREE.LineBasicMaterial({ 
       color: color,
@@ -399,20 +799,24 @@ function MinecraftBuilder() {
     const wireframe = new THREE.LineSegments(edges, wireframeMaterial);
     wireframe.position.set(player.x, player.y, player.z);
     
-    // Add player name as user data
-    wireframe.userData = { playerName: player.name };
+    // Add player session as user data
+    wireframe.userData = { playerSessionId: player.sessionId };
     
     scene.add(wireframe);
-    playerWireframesRef.current.set(player.name, wireframe);
+    playerWireframesRef.current.set(player.sessionId, wireframe);
     
     // Create HTML label for player name
-    createOrUpdatePlayerLabel(player.name, color);
+    createOrUpdatePlayerLabel(player.sessionId, player.name, color);
     
     return wireframe;
   }
 
   // Create or update HTML label for player name
-  function createOrUpdatePlayerLabel(playerName: string, color: THREE.Color) {
+  function createOrUpdatePlayerLabel(
+    sessionId: string,
+    playerName: string,
+    color: THREE.Color
+  ) {
     // Make sure label container exists
     if (!labelContainerRef.current) {
       const container = document.createElement('div');
@@ -431,7 +835,7 @@ function MinecraftBuilder() {
     }
     
     // Create or get existing label
-    let label = playerLabelsRef.current.get(playerName);
+    let label = playerLabelsRef.current.get(sessionId);
     if (!label) {
       label = document.createElement('div');
       label.style.position = 'absolute';
@@ -453,7 +857,7 @@ function MinecraftBuilder() {
       
       if (labelContainerRef.current) {
         labelContainerRef.current.appendChild(label);
-        playerLabelsRef.current.set(playerName, label);
+        playerLabelsRef.current.set(sessionId, label);
       }
     }
     
@@ -467,8 +871,8 @@ function MinecraftBuilder() {
     const camera = cameraRef.current;
     const renderer = rendererRef.current;
     
-    playerWireframesRef.current.forEach((wireframe, playerName) => {
-      const label = playerLabelsRef.current.get(playerName);
+    playerWireframesRef.current.forEach((wireframe, sessionId) => {
+      const label = playerLabelsRef.current.get(sessionId);
       if (!label) return;
       
       // Get the position above the player wireframe
@@ -515,71 +919,125 @@ function MinecraftBuilder() {
   }, [isCollaborative]);
   
   // Remove player wireframe and label
-  function removePlayerWireframeAndLabel(playerName: string) {
+  function removePlayerWireframeAndLabel(sessionId: string) {
     const scene = sceneRef.current;
     if (!scene) return;
     
     // Remove wireframe
-    if (playerWireframesRef.current.has(playerName)) {
-      const wireframe = playerWireframesRef.current.get(playerName)!;
+    if (playerWireframesRef.current.has(sessionId)) {
+      const wireframe = playerWireframesRef.current.get(sessionId)!;
       scene.remove(wireframe);
-      playerWireframesRef.current.delete(playerName);
+      playerWireframesRef.current.delete(sessionId);
     }
     
     // Remove label
-    const label = playerLabelsRef.current.get(playerName);
+    const label = playerLabelsRef.current.get(sessionId);
     if (label && labelContainerRef.current) {
       labelContainerRef.current.removeChild(label);
-      playerLabelsRef.current.delete(playerName);
+      playerLabelsRef.current.delete(sessionId);
     }
   }
 
-  // Add a block to the scene
-  function addBlockToScene(block: IBlock) {
-    const scene = sceneRef.current;
-    if (!scene) return;
+  // Get the model a block is drawn with (textured or colored based on its type)
+  function blockModel(block: IBlockPosition): IBlockModel {
+    const model = block.blockType
+      ? blockModelsRef.current[block.blockType]
+      : undefined;
 
-    let blockMesh: THREE.Mesh;
+    // Colored block, or a red one as fallback until its type's model is loaded
+    return model || colorBlockModel(block.color || "red");
+  }
 
-    if (block.blockType && blockMaterialsCache[block.blockType]) {
-      // Create a textured block
-      const blockGeometry = new THREE.BoxGeometry(1, 1, 1);
-      blockMesh = new THREE.Mesh(
-        blockGeometry,
-        blockMaterialsCache[block.blockType]
-      );
-    } else if (block.color) {
-      // Create a colored block
-      const blockGeometry = new THREE.BoxGeometry(1, 1, 1);
-      const blockMaterial = new THREE.MeshLambertMaterial({
-        color: block.color,
-      });
-      blockMesh = new THREE.Mesh(blockGeometry, blockMaterial);
-    } else {
-      // Default red block as fallback
-      const blockGeometry = new THREE.BoxGeometry(1, 1, 1);
-      const blockMaterial = new THREE.MeshLambertMaterial({
-        color: "red",
-      });
-      blockMesh = new THREE.Mesh(blockGeometry, blockMaterial);
-    }
+  // Add blocks to the store and the scene in one update
+  // Blocks whose cell or id is already taken are skipped, returns the added blocks
+  function addBlocksToScene(blocks: IBlockPosition[]): IBlockPosition[] {
+    const chunkMesher = chunkMesherRef.current;
+    if (!chunkMesher) return [];
 
-    blockMesh.position.copy(block.position);
-    blockMesh.userData = {
-      isBlock: true,
-      id: block.id,
-      blockType: block.blockType,
-    };
+    const added = blocks.filter((block) => blockStoreRef.current.add(block));
+    chunkMesher.markBlocks(added);
+
+    setBlockCount(blockStoreRef.current.size);
+    return added;
+  }
+
+  // Add a block to the store and the scene
+  // Returns false if its cell or id is already taken
+  function addBlockToScene(block: IBlockPosition): boolean {
+    return addBlocksToScene([block]).length > 0;
+  }
+
+  // Remove blocks from the store and the scene in one update, returns the removed blocks
+  function removeBlocksFromScene(blockIds: string[]): IBlockPosition[] {
+    const removed: IBlockPosition[] = [];
+
+    blockIds.forEach((blockId) => {
+      const block = blockStoreRef.current.removeById(blockId);
+      if (block) removed.push(block);
+    });
+    chunkMesherRef.current?.markBlocks(removed);
+
+    setBlockCount(blockStoreRef.current.size);
+    return removed;
+  }
+
+  // Remove a block from the store and the scene, returns the removed block
+  function removeBlockFromScene(blockId: string): IBlockPosition | undefined {
+    return removeBlocksFromScene([blockId])[0];
+  }
+
+  // Remove every block from the store and the scene
+  function clearBlocksFromScene() {
+    chunkMesherRef.current?.clear();
+    blockStoreRef.current.clear();
+    setBlockCount(0);
+  }
+
+  // Keep the blocks of an event that are in chunks we loaded, the others would never be unloaded
+  function inLoadedChunks(blocks: IBlockPosition[]): IBlockPosition[] {
+    if (!isCollaborative) return blocks;
+    return blocks.filter(isInLoadedChunk);
+  }
+
+  function outsideLoadedChunks(blocks: IBlockPosition[]): IBlockPosition[] {
+    if (!isCollaborative) return [];
+    return blocks.filter((block) => !isInLoadedChunk(block));
+  }
+
+  function isInLoadedChunk(block: IBlockPosition) {
+    return loadedChunksRef.current.has(blockChunkKey(block));
+  }
+
+  // Drop the blocks outside a box of chunks from the scene, they stay in the room
+  // (and in the undo history, which leaves blocks in unloaded chunks to the server to check)
+  function unloadChunksOutside(box: IRegion) {
+    loadedChunksRef.current.forEach((key) => {
+      const [x, y, z] = key.split(",").map(Number);
+      if (!isChunkInBox({ x, y, z }, box)) loadedChunksRef.current.delete(key);
+    });
 
-    scene.add(blockMesh);
+    const outside = blockStoreRef.current
+      .toArray()
+      .filter((block) => !isChunkInBox(chunkOf(blockCell(block)), box));
+    removeBlocksFromScene(outside.map((block) => block.id));
   }
 
   // Send block update to the server
-  async function sendBlockUpdate(action: string, data: any) {
-    if (!isCollaborative || syncingRef.current) return;
+  // Resolves to the rejection when the server refuses the action, or null otherwise
+  async function sendBlockUpdate(
+    action: string,
+    data: any
+  ): Promise<Omit<IActionRejection, "status"> | null> {
+    if (!isCollaborative || syncingRef.current) return null;
+
+    // Until the server has given us a session we can't change the room
+    const sender = sessionIdRef.current;
+    if (!sender) {
+      return { reason: "unknown_session", error: "Not connected to the room yet" };
+    }
 
     try {
-      await fetch(`/api/building/${roomId}`, {
+      const response = await fetch(`/api/building/${roomId}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -587,12 +1045,156 @@ function MinecraftBuilder() {
         body: JSON.stringify({
           action,
           ...data,
-          sender: userName,
+          sender,
         }),
       });
+
+      // Client errors mean the server refused the action, it was not applied,
+      // and so does a 503 (the server couldn't save it and took it back)
+      if ((response.status >= 400 && response.status < 500) || response.status === 503) {
+        const body = await response.json().catch(() => ({}));
+        const rejection = {
+          reason: body.reason || "invalid_payload",
+          error: body.error || response.statusText,
+        };
+        console.warn(`Server rejected ${action}: ${rejection.reason} (${rejection.error})`);
+
+        // The server dropped our session (e.g. evicted while asleep), join the room again
+        // (only once, other requests may have been sent with the same session)
+        if (rejection.reason === "unknown_session" && sessionIdRef.current === sender) {
+          sessionIdRef.current = "";
+          reconnectRef.current?.();
+        }
+
+        return rejection;
+      }
     } catch (error) {
       console.error("Error sending block update:", error);
     }
+
+    return null;
+  }
+
+  // Apply a command locally and send it to the room
+  // Only the parts that still apply are used, resolves to what was applied
+  // and, in a room, accepted by the server (the rest is taken back)
+  async function applyCommand(command: IBlockCommand): Promise<IBlockCommand> {
+    const applicable = resolveHistoryCommand(command);
+    const removed = removeBlocksFromScene(
+      applicable.removed.map((block) => block.id)
+    );
+    const added = addBlocksToScene(inLoadedChunks(applicable.added));
+    if (!isCollaborative) return { added, removed };
+
+    // Blocks in chunks we don't have loaded go to the room as they are, it checks them
+    return sendCommand({
+      added: [...added, ...outsideLoadedChunks(applicable.added)],
+      removed: [...removed, ...outsideLoadedChunks(applicable.removed)],
+    });
+  }
+
+  // Narrow a command from the history down to the parts that still apply
+  // In a room, blocks in chunks we don't have loaded are left for the server to check
+  function resolveHistoryCommand(command: IBlockCommand): IBlockCommand {
+    if (!isCollaborative) return resolveCommand(command, blockStoreRef.current);
+    return resolveCommand(command, blockStoreRef.current, (block) => !isInLoadedChunk(block));
+  }
+
+  // Send a command as batch actions, removals first so their cells are free
+  // Commands that both remove and add (like moving blocks) go as one batch when they fit,
+  // large ones (like generated terrain) take several
+  // Resolves to the part the server accepted, the rejected batches are taken back locally
+  async function sendCommand(command: IBlockCommand): Promise<IBlockCommand> {
+    const { added, removed } = command;
+    if (added.length > 0 && removed.length > 0 && added.length + removed.length <= MAX_BATCH_SIZE) {
+      const rejection = await sendBlockUpdate("replace_many", {
+        blockIds: removed.map((block) => block.id),
+        blocks: added,
+      });
+
+      // Nothing was changed on the server, take back our copy of the command
+      if (rejection) {
+        removeBlocksFromScene(added.map((block) => block.id));
+        addBlocksToScene(inLoadedChunks(removed));
+        return { added: [], removed: [] };
+      }
+      return command;
+    }
+
+    const accepted: IBlockCommand = { added: [], removed: [] };
+
+    for (const batch of toBatches(removed)) {
+      const rejection = await sendBlockUpdate("remove_many", {
+        blockIds: batch.map((block) => block.id),
+      });
+
+      // Blocks the server doesn't know about are already gone, others are still in the room
+      if (rejection && rejection.reason !== "block_not_found") {
+        addBlocksToScene(inLoadedChunks(batch));
+      } else {
+        accepted.removed.push(...batch);
+      }
+    }
+
+    for (const batch of toBatches(added)) {
+      const rejection = await sendBlockUpdate("add_many", {
+        blocks: batch,
+      });
+
+      // Someone else took one of the cells first, drop our copies
+      if (rejection) {
+        removeBlocksFromScene(batch.map((block) => block.id));
+      } else {
+        accepted.added.push(...batch);
+      }
+    }
+
+    return accepted;
+  }
+
+  // Undo the last command that still applies
+  async function undo() {
+    const history = historyRef.current;
+    let command = history.takeUndo();
+
+    while (command) {
+      // Every cell was changed by someone else since, skip to the one before
+      const inverse = invertCommand(command);
+      if (isEmptyCommand(resolveHistoryCommand(inverse))) {
+        command = history.takeUndo();
+        continue;
+      }
+
+      // Kept for another try when the server refused all of it
+      const accepted = await applyCommand(inverse);
+      if (isEmptyCommand(accepted)) {
+        history.pushUndo(command);
+      } else {
+        history.pushRedo(invertCommand(accepted));
+      }
+      return;
+    }
+  }
+
+  // Redo the last undone command that still applies
+  async function redo() {
+    const history = historyRef.current;
+    let command = history.takeRedo();
+
+    while (command) {
+      if (isEmptyCommand(resolveHistoryCommand(command))) {
+        command = history.takeRedo();
+        continue;
+      }
+
+      const accepted = await applyCommand(command);
+      if (isEmptyCommand(accepted)) {
+        history.pushRedo(command);
+      } else {
+        history.pushUndo(accepted);
+      }
+      return;
+    }
   }
 
   // Start sharing this build
@@ -618,18 +1220,55 @@ function MinecraftBuilder() {
     window.history.pushState({}, "", url.toString());
   }
 
-  // Copy share link to clipboard
-  function copyShareLink() {
-    const url = new URL(window.location.href);
-    url.searchParams.set("room", roomId);
+  // Switch to another room from the room browser
+  function joinRoom(newRoomId: string) {
+    setShowRoomBrowser(false);
+    if (newRoomId === roomId && isCollaborative) return;
 
-    navigator.clipboard
-      .writeText(url.toString())
-      .then(() => {
-        alert("Share link copied to clipboard!");
-      })
-      .catch((err) => {
-        console.error("Failed to copy link: ", err);
+    router.push(`/?room=${encodeURIComponent(newRoomId)}`);
+  }
+
+  // Pick a new display name, the server keeps names unique in the room
+  async function renamePlayer() {
+    const name = prompt("Enter your new name:", displayName || userName);
+    if (!name || name === displayName) return;
+
+    const rejection = await sendBlockUpdate("rename", { name });
+    if (rejection) {
+      alert(
+        rejection.reason === "name_taken"
+          ? `The name "${name}" is already taken in this room.`
+          : `Failed to rename: ${rejection.error}`
+      );
+      return;
+    }
+
+    // Use the new name next time too
+    localStorage.setItem("minecraft_builder_username", name);
+  }
+
+  // Send a chat message to the room, it shows up once the server broadcasts it
+  async function sendChatMessage(text: string) {
+    const rejection = await sendBlockUpdate("chat", { text });
+    if (rejection) {
+      alert(`Failed to send message: ${rejection.error}`);
+      return false;
+    }
+    return true;
+  }
+
+  // Copy share link to clipboard
+  function copyShareLink() {
+    const url = new URL(window.location.href);
+    url.searchParams.set("room", roomId);
+
+    navigator.clipboard
+      .writeText(url.toString())
+      .then(() => {
+        alert("Share link copied to clipboard!");
+      })
+      .catch((err) => {
+        console.error("Failed to copy link: ", err);
         alert("Failed to copy link. Please try again.");
       });
   }
@@ -642,7 +1281,10 @@ function MinecraftBuilder() {
   const mouseRef = useRef<THREE.Vector2>(new THREE.Vector2());
   const previewRef = useRef<THREE.Mesh | null>(null);
   const previewWireframeRef = useRef<THREE.LineSegments | null>(null);
-  const hoveredBlockRef = useRef<THREE.Mesh | null>(null);
+  const hoveredBlockRef = useRef<IBlockPosition | null>(null);
+  // Where the pointer ray meets a block or the base, null when it meets nothing
+  const pointerHitRef = useRef<IVoxelHit | null>(null);
+  const baseRef = useRef<THREE.Mesh | null>(null);
 
   // Color options (legacy)
   const colorOptions: IColorOption[] = [
@@ -652,73 +1294,70 @@ function MinecraftBuilder() {
     { name: "White", value: "white" },
   ];
 
-  // Preload all block materials
-  useEffect(() => {
-    async function preloadMaterials() {
-      const cache: { [key: string]: THREE.MeshLambertMaterial[] } = {};
+  // Store the models cache in state (for rendering) and in the ref (for callbacks)
+  function updateBlockModelsCache(cache: {
+    [key: string]: IBlockModel;
+  }) {
+    blockModelsRef.current = cache;
+    setBlockModelsCache(cache);
+  }
 
-      // Load materials for each block type
-      for (const blockType of BLOCK_ARRAY) {
-        const materials = await createBlockMaterials(blockType.faces);
-        cache[blockType.id] = materials;
-      }
+  // Preload all block models, and build them again whenever the texture pack changes
+  useEffect(() => {
+    if (!textureManifest) return;
+    const manifest = textureManifest;
+    let cancelled = false;
 
-      setBlockMaterialsCache(cache);
+    async function preloadModels() {
+      const loadedModels: { [key: string]: IBlockModel } = {};
 
-      // After all materials are loaded, check if we need to rerender any blocks
-      // that were initially rendered as red fallbacks due to missing textures
-      const scene = sceneRef.current;
-      if (!scene) return;
-
-      // Go through all blocks in the scene and update any that have a blockType
-      blocks.forEach((block) => {
-        if (block.blockType && cache[block.blockType]) {
-          // Find the block mesh in the scene
-          const blockMesh = scene.children.find(
-            (obj) => obj.userData.id === block.id
-          ) as THREE.Mesh;
-
-          if (blockMesh && blockMesh.material) {
-            // Check if the block was rendered as a colored block (fallback)
-            const isColorBlock = Array.isArray(blockMesh.material) === false;
-
-            if (isColorBlock) {
-              // Replace the material with the correct textured material
-              blockMesh.material = cache[block.blockType];
-            }
-          }
-        }
-      });
-    }
+      // Load the model of each block type
+      for (const blockType of [...customBlocks, ...BLOCK_ARRAY]) {
+        loadedModels[blockType.id] = await createBlockModel(blockType.faces, blockType.transparent);
+      }
 
-    preloadMaterials();
-  }, [blocks]);
+      // The pack changed again while loading, a newer run takes over
+      // Only the geometries belong to the models, the atlas materials are shared
+      if (cancelled) {
+        Object.values(loadedModels).forEach((model) => model.geometry.dispose());
+        return;
+      }
 
-  // Create a textured block mesh
-  function createBlockMesh(
-    position: THREE.Vector3,
-    blockType: string
-  ): THREE.Mesh {
-    const blockGeometry = new THREE.BoxGeometry(1, 1, 1);
-    const blockId = Date.now().toString();
+      // Keep custom block models that were loaded in the meantime
+      const previous = blockModelsRef.current;
+      const cache = { ...previous, ...loadedModels };
+      updateBlockModelsCache(cache);
 
-    let blockMesh: THREE.Mesh;
+      // After all models are loaded, update any blocks that were
+      // initially rendered as red fallbacks due to missing textures,
+      // or with the textures of the previous pack
+      refreshBlockModels(new Set(Object.keys(loadedModels)));
 
-    // If we have materials for this block type, use them
-    if (blockMaterialsCache[blockType]) {
-      blockMesh = new THREE.Mesh(blockGeometry, blockMaterialsCache[blockType]);
-    } else {
-      // Fallback to color-based material
-      const blockMaterial = new THREE.MeshLambertMaterial({
-        color: selectedColor,
-      });
-      blockMesh = new THREE.Mesh(blockGeometry, blockMaterial);
+      // Free the geometries that were replaced, and the atlases only they drew from
+      Object.keys(loadedModels).forEach((id) => previous[id]?.geometry.dispose());
+      releaseUnusedAtlases(manifest);
     }
 
-    blockMesh.position.copy(position);
-    blockMesh.userData = { isBlock: true, id: blockId, blockType };
+    preloadModels();
+    return () => {
+      cancelled = true;
+    };
+  }, [textureManifest]);
+
+  // Restore the custom blocks and textures saved in this browser
+  useEffect(() => {
+    applyUserTextures(loadSavedTextures());
+    applyBlockDefinitions(loadSavedBlocks());
+  }, []);
 
-    return blockMesh;
+  // Re-mesh the chunks with blocks of changedTypes once their models are loaded,
+  // so blocks drawn as red fallbacks or with an edited definition get the new model
+  function refreshBlockModels(changedTypes: Set<string>) {
+    chunkMesherRef.current?.markBlocks(
+      blockStoreRef.current
+        .toArray()
+        .filter((block) => block.blockType && changedTypes.has(block.blockType))
+    );
   }
 
   // Update preview box to show the right material
@@ -726,11 +1365,13 @@ function MinecraftBuilder() {
     const previewBox = previewRef.current;
     if (!previewBox) return;
 
-    if (selectedBlockType && blockMaterialsCache[selectedBlockType]) {
-      // Use the textured materials for the preview
-      previewBox.material = blockMaterialsCache[selectedBlockType];
+    if (selectedBlockType && blockModelsCache[selectedBlockType]) {
+      // Use the textured model for the preview
+      previewBox.geometry = blockModelsCache[selectedBlockType].geometry;
+      previewBox.material = blockModelsCache[selectedBlockType].materials;
     } else {
       // Use the color-based material for the preview
+      previewBox.geometry = UNIT_BOX_GEOMETRY;
       previewBox.material = new THREE.MeshBasicMaterial({
         color: selectedColor,
         opacity: 0.6,
@@ -796,39 +1437,38 @@ function MinecraftBuilder() {
     directionalLight.castShadow = true;
     scene.add(directionalLight);
 
-    // Create 20x20 green base
-    const baseGeometry = new THREE.BoxGeometry(20, 1, 20);
+    // Create the green base, it is scaled to the build area
+    const baseGeometry = new THREE.BoxGeometry(1, 1, 1);
     const baseMaterial = new THREE.MeshLambertMaterial({ color: 0x00aa00 });
     const base = new THREE.Mesh(baseGeometry, baseMaterial);
     base.position.y = -0.5; // Position the base so its top face is at y=0
-    base.userData = { isBase: true };
+    baseRef.current = base;
     scene.add(base);
 
-    // Grid helper - aligned with integer coordinates (lines run between cells)
-    const gridHelper = new THREE.GridHelper(20, 20);
-    // Center the grid at integer coordinates so cells are between lines
-    gridHelper.position.set(0, 0, 0);
-    scene.add(gridHelper);
+    // Placed blocks, meshed per chunk
+    const chunkMesher = new ChunkMesher(blockStoreRef.current, blockModel);
+    chunkMesherRef.current = chunkMesher;
+    scene.add(chunkMesher.group);
 
     // Add coordinate axes helper
     const axesHelper = new THREE.AxesHelper(5);
     scene.add(axesHelper);
 
     // Create preview box
-    const previewGeometry = new THREE.BoxGeometry(1.01, 1.01, 1.01); // Slightly larger to avoid z-fighting
     const previewMaterial = new THREE.MeshBasicMaterial({
       color: 0xffffff,
       wireframe: false,
       opacity: 0.6,
       transparent: true,
     });
-    const previewBox = new THREE.Mesh(previewGeometry, previewMaterial);
+    const previewBox = new THREE.Mesh(UNIT_BOX_GEOMETRY, previewMaterial);
+    previewBox.scale.setScalar(1.01); // Slightly larger to avoid z-fighting
     previewBox.visible = false;
     previewRef.current = previewBox;
     scene.add(previewBox);
 
     // Add wireframe to preview box
-    const wireframeGeometry = new THREE.EdgesGeometry(previewGeometry);
+    const wireframeGeometry = new THREE.EdgesGeometry(UNIT_BOX_GEOMETRY);
     const wireframeMaterial = new THREE.LineBasicMaterial({
       color: 0xffffff,
       linewidth: 1,
@@ -840,6 +1480,12 @@ function MinecraftBuilder() {
     previewBox.add(wireframe);
     previewWireframeRef.current = wireframe;
 
+    // Outline of the box selection
+    const selectionOutline = createOutline(0xffffff);
+    selectionOutline.visible = false;
+    selectionOutlineRef.current = selectionOutline;
+    scene.add(selectionOutline);
+
     // Handle window resize
     function handleResize() {
       if (!cameraRef.current || !rendererRef.current) return;
@@ -852,7 +1498,19 @@ function MinecraftBuilder() {
     // Animation loop
     function animate() {
       requestAnimationFrame(animate);
-      if (controlsRef.current) controlsRef.current.update();
+      if (controlsRef.current) {
+        controlsRef.current.update();
+
+        // Blocks and the ground follow the camera's target from chunk to chunk
+        const { target } = controlsRef.current;
+        const chunk = chunkOf(positionToCell(target.x, 0, target.z));
+        if (chunk.x !== viewChunkRef.current.x || chunk.z !== viewChunkRef.current.z) {
+          viewChunkRef.current = chunk;
+          setViewChunk(chunk);
+        }
+      }
+      // Re-mesh the chunks whose blocks changed since the last frame
+      chunkMesher.update();
       if (rendererRef.current && sceneRef.current && cameraRef.current) {
         rendererRef.current.render(sceneRef.current, cameraRef.current);
       }
@@ -877,14 +1535,56 @@ function MinecraftBuilder() {
     };
   }, []);
 
+  // Fit the base and the grid to the build area, in an open world they follow the camera
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const base = baseRef.current;
+    if (!scene || !base) return;
+
+    const ground = groundBounds(viewChunk, buildArea);
+    groundBoundsRef.current = ground;
+    const width = ground.max.x - ground.min.x + 1;
+    const depth = ground.max.z - ground.min.z + 1;
+    base.scale.set(width, 1, depth);
+    base.position.set(ground.min.x + width / 2, -0.5, ground.min.z + depth / 2);
+
+    // Grid lines run between cells
+    const grid = createGridLines(ground);
+    scene.add(grid);
+
+    return () => {
+      scene.remove(grid);
+      grid.geometry.dispose();
+      (grid.material as THREE.Material).dispose();
+    };
+  }, [viewChunk, buildArea]);
+
+  // Load the room's blocks in the chunks around the camera and drop the ones we moved away from
+  useEffect(() => {
+    if (!isCollaborative || !sessionIdRef.current) return;
+
+    const box = viewChunkBox(viewChunk, buildArea);
+    const subscription = JSON.stringify(box);
+    if (subscription === subscriptionRef.current) return;
+    subscriptionRef.current = subscription;
+
+    unloadChunksOutside(box);
+    sendBlockUpdate("subscribe", { chunks: box }).then((rejection) => {
+      // Try again on the next change
+      if (rejection && subscriptionRef.current === subscription) subscriptionRef.current = null;
+    });
+  }, [viewChunk, buildArea, isCollaborative, sessionVersion]);
+
   // Update the preview material when the selection changes
   useEffect(() => {
     updatePreviewMaterial();
-  }, [selectedBlockType, selectedColor, blockMaterialsCache]);
+  }, [selectedBlockType, selectedColor, blockModelsCache]);
 
   // Handle keyboard controls (WASD)
   useEffect(() => {
     function handleKeyDown(event: KeyboardEvent) {
+      if (isTypingTarget(event.target)) return;
+
       if (['w', 'a', 's', 'd', 'W', 'A', 'S', 'D', ' ', 'Shift'].includes(event.key)) {
         event.preventDefault();
         keysPressed.current.add(event.key.toLowerCase());
@@ -1001,6 +1701,35 @@ function MinecraftBuilder() {
 
       // Update preview box position
       updatePreviewPosition();
+
+      // Stretch the selection being dragged out to the cell under the pointer
+      const start = selectionStartRef.current;
+      const cell = pointerCell();
+      if (start && cell) {
+        const region = regionBetween(start, cell);
+        if (JSON.stringify(region) !== JSON.stringify(selectionRef.current)) selectRegion(region);
+      }
+    }
+
+    // Shift + left drag selects a box of cells, the camera doesn't turn meanwhile
+    // (runs before the orbit controls see the pointer, they ignore it once disabled)
+    function handlePointerDown(event: PointerEvent) {
+      if (event.button !== 0 || !event.shiftKey) return;
+      if (event.target !== rendererRef.current?.domElement) return;
+
+      const cell = pointerCell();
+      if (!cell) return;
+
+      if (controlsRef.current) controlsRef.current.enabled = false;
+      selectionStartRef.current = cell;
+      selectRegion(regionBetween(cell, cell));
+    }
+
+    function handlePointerUp() {
+      if (!selectionStartRef.current) return;
+
+      selectionStartRef.current = null;
+      if (controlsRef.current) controlsRef.current.enabled = true;
     }
 
     function updatePreviewPosition() {
@@ -1012,74 +1741,42 @@ function MinecraftBuilder() {
 
       raycasterRef.current.setFromCamera(mouseRef.current, camera);
 
-      // Reset hovered block reference
-      hoveredBlockRef.current = null;
-
-      // Filter out preview box, other player previews, and non-placeable objects
-      const objectsToCheck = scene.children.filter((obj) => {
-        return (
-          obj !== previewBox &&
-          !obj.userData.playerName && // Exclude player wireframes
-          (obj.userData.isBase === true || obj.userData.isBlock === true)
-        );
-      });
-
-      const intersects = raycasterRef.current.intersectObjects(
-        objectsToCheck,
-        false
+      // Walk the grid along the ray to the first block or the base
+      const { origin, direction } = raycasterRef.current.ray;
+      const hit = raycastVoxels(
+        blockStoreRef.current,
+        origin,
+        direction,
+        MAX_PICK_DISTANCE,
+        (cell) => isBaseCell(cell, groundBoundsRef.current)
       );
 
-      if (intersects.length > 0) {
-        const intersect = intersects[0];
+      // The hovered block, none when the base or nothing was hit
+      hoveredBlockRef.current = hit?.block ?? null;
+      pointerHitRef.current = hit;
 
-        // If we're hovering over a block (not the base), store reference to it
-        if (intersect.object.userData.isBlock) {
-          hoveredBlockRef.current = intersect.object as THREE.Mesh;
-        }
-
-        // Calculate position for the preview box with more precision
-        const position = new THREE.Vector3();
+      // While pasting, the ghost of the pasted blocks stands in for the preview
+      if (pasteRef.current) {
+        movePasteGhost();
+        previewBox.visible = false;
+        return;
+      }
 
-        // Special case for placing blocks directly on the green base
-        if (intersect.object.userData.isBase) {
-          // Convert to grid cell coordinates (center of cells)
-          position.x = Math.floor(intersect.point.x) + 0.5;
-          position.z = Math.floor(intersect.point.z) + 0.5;
-          position.y = 0.5; // Place half a block above the base
-        } else {
-          // For placing on other blocks
-          const normal =
-            intersect.face?.normal.clone() ?? new THREE.Vector3(0, 1, 0);
-          normal.transformDirection(intersect.object.matrixWorld);
-
-          // Calculate new position based on the face normal
-          position.copy(intersect.point).add(normal.multiplyScalar(0.5));
-
-          // Snap to grid cell centers
-          position.x = Math.floor(position.x) + 0.5;
-          position.y = Math.floor(position.y) + 0.5;
-          position.z = Math.floor(position.z) + 0.5;
-        }
+      if (hit) {
+        // The preview goes in the cell in front of the side the ray hit
+        const position = cellToPosition({
+          x: hit.cell.x + hit.normal.x,
+          y: hit.cell.y + hit.normal.y,
+          z: hit.cell.z + hit.normal.z,
+        });
 
-        // Check if position is within bounds (20x20 grid)
-        if (
-          position.x >= -9.5 &&
-          position.x <= 9.5 &&
-          position.z >= -9.5 &&
-          position.z <= 9.5 &&
-          position.y >= 0 &&
-          position.y < 20
-        ) {
+        // Check if position is within the build area
+        if (isWithinBuildArea(position.x, position.y, position.z, buildAreaRef.current)) {
           // Check if there's already a block at this position
-          const blockExists = blocks.some(
-            (block) =>
-              Math.abs(block.position.x - position.x) < 0.1 &&
-              Math.abs(block.position.y - position.y) < 0.1 &&
-              Math.abs(block.position.z - position.z) < 0.1
-          );
-
-          if (!blockExists) {
-            previewBox.position.copy(position);
+          if (
+            !blockStoreRef.current.getAtPosition(position.x, position.y, position.z)
+          ) {
+            previewBox.position.set(position.x, position.y, position.z);
             previewBox.visible = true;
             return;
           }
@@ -1098,20 +1795,21 @@ function MinecraftBuilder() {
       const camera = cameraRef.current;
       const previewBox = previewRef.current;
 
+      // While pasting, right-click places the pasted blocks instead
+      if (pasteRef.current) {
+        placePaste();
+        return;
+      }
+
       if (!scene || !camera || !previewBox || !previewBox.visible) return;
 
       // Just use the preview box position since we already calculated it
       const position = previewBox.position.clone();
 
       // Check if there's already a block at this position (for extra safety)
-      const blockExists = blocks.some(
-        (block) =>
-          block.position.x === position.x &&
-          block.position.y === position.y &&
-          block.position.z === position.z
-      );
-
-      if (blockExists) return;
+      if (blockStoreRef.current.getAtPosition(position.x, position.y, position.z)) {
+        return;
+      }
 
       // Create a unique ID for the block
       const blockId =
@@ -1120,86 +1818,131 @@ function MinecraftBuilder() {
         Math.random().toString(36).substring(2, 9);
 
       // Create and add a new block (textured or colored based on selection)
-      let block: THREE.Mesh;
-
-      const newBlock: IBlock = {
-        position,
+      const newBlock: IBlockPosition = {
+        x: position.x,
+        y: position.y,
+        z: position.z,
         color: selectedBlockType ? undefined : selectedColor,
-        blockType: selectedBlockType,
+        blockType: selectedBlockType || undefined,
         id: blockId,
       };
 
-      if (selectedBlockType && blockMaterialsCache[selectedBlockType]) {
-        // Create a textured block
-        block = createBlockMesh(position, selectedBlockType);
-        block.userData.id = blockId;
-      } else {
-        // Create a colored block (legacy behavior)
-        const blockGeometry = new THREE.BoxGeometry(1, 1, 1);
-        const blockMaterial = new THREE.MeshLambertMaterial({
-          color: selectedColor,
-        });
-        block = new THREE.Mesh(blockGeometry, blockMaterial);
-        block.position.copy(position);
-        block.userData = { isBlock: true, id: blockId };
-      }
+      if (!addBlockToScene(newBlock)) return;
 
-      scene.add(block);
+      const command: IBlockCommand = { added: [newBlock], removed: [] };
 
-      // Update state
-      setBlocks([...blocks, newBlock]);
+      // In a room it only goes into history once the server accepts it,
+      // recording clears the redo stack
+      if (!isCollaborative) {
+        historyRef.current.record(command);
+        return;
+      }
 
-      // Send update if in collaborative mode
-      if (isCollaborative) {
-        const blockPosition: IBlockPosition = {
-          x: position.x,
-          y: position.y,
-          z: position.z,
-          color: selectedBlockType ? undefined : selectedColor,
-          blockType: selectedBlockType,
-          id: blockId,
-        };
+      sendBlockUpdate("add", { block: newBlock }).then((rejection) => {
+        if (!rejection) {
+          historyRef.current.record(command);
+          return;
+        }
 
-        sendBlockUpdate("add", { block: blockPosition });
-      }
+        // Roll back the optimistic placement
+        removeBlockFromScene(blockId);
+      });
     }
 
     function handleKeyDown(event: KeyboardEvent) {
-      // Delete block when 'z' is pressed and hovering over a block
-      if (event.key.toLowerCase() === "z" && hoveredBlockRef.current) {
-        const scene = sceneRef.current;
-        if (!scene) return;
+      // Leave text fields (chat, room names) their own shortcuts
+      if (isTypingTarget(event.target)) return;
+
+      // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes
+      // Ctrl+C, Ctrl+X and Ctrl+V copy, cut and paste the selected blocks
+      if (event.ctrlKey || event.metaKey) {
+        const key = event.key.toLowerCase();
+        if (key === "z" || key === "y") {
+          event.preventDefault();
+          if (key === "y" || event.shiftKey) {
+            redo();
+          } else {
+            undo();
+          }
+        } else if (key === "c" && selectionRef.current) {
+          event.preventDefault();
+          copySelection();
+        } else if (key === "x" && selectionRef.current) {
+          event.preventDefault();
+          cutSelection();
+        } else if (key === "v" && clipboardRef.current) {
+          event.preventDefault();
+          startPaste(clipboardRef.current);
+        }
+        return;
+      }
 
-        const blockToRemove = hoveredBlockRef.current;
-        const blockId = blockToRemove.userData.id;
+      if (event.key === "Escape") {
+        if (pasteRef.current) {
+          cancelPaste();
+        } else {
+          selectRegion(null);
+        }
+        return;
+      }
 
-        // Remove the block from the scene
-        scene.remove(blockToRemove);
+      // R turns, M mirrors along x and Shift+M along z, the blocks being pasted or the selected ones
+      const key = event.key.toLowerCase();
+      if (key === "r" || key === "m") {
+        const transform =
+          key === "r"
+            ? rotateClipboard
+            : (copied: IClipboard) => mirrorClipboard(copied, event.shiftKey ? "z" : "x");
+        if (pasteRef.current) {
+          startPaste(transform(pasteRef.current.clipboard));
+        } else {
+          transformSelection(transform);
+        }
+        return;
+      }
 
-        // Update state to remove the block
-        setBlocks(
-          blocks.filter((block) => {
-            // If we have an ID, use it for comparison
-            if (blockId && block.id) {
-              return block.id !== blockId;
-            }
+      // Arrow keys, Page Up and Page Down move the selected blocks
+      if (SELECTION_MOVES[event.key] && selectionRef.current && !pasteRef.current) {
+        event.preventDefault();
+        transformSelection((copied) => copied, SELECTION_MOVES[event.key]);
+        return;
+      }
 
-            // Fallback to position comparison if no ID
-            return !(
-              Math.abs(block.position.x - blockToRemove.position.x) < 0.1 &&
-              Math.abs(block.position.y - blockToRemove.position.y) < 0.1 &&
-              Math.abs(block.position.z - blockToRemove.position.z) < 0.1
-            );
-          })
-        );
+      if ((event.key === "Delete" || event.key === "Backspace") && selectionRef.current) {
+        deleteSelection();
+        return;
+      }
+
+      // Delete block when 'z' is pressed and hovering over a block
+      if (event.key.toLowerCase() === "z" && hoveredBlockRef.current) {
+        const blockId = hoveredBlockRef.current.id;
+
+        // Remove the block from the store and the scene
+        const removedBlock = removeBlockFromScene(blockId);
 
         // Reset hover reference
         hoveredBlockRef.current = null;
 
-        // Send update if in collaborative mode
-        if (isCollaborative && blockId) {
-          sendBlockUpdate("remove", { blockId });
+        if (!removedBlock) return;
+
+        const command: IBlockCommand = { added: [], removed: [removedBlock] };
+
+        // Like placing, it only goes into history once the room accepts it
+        if (!isCollaborative) {
+          historyRef.current.record(command);
+          return;
         }
+
+        sendBlockUpdate("remove", { blockId }).then((rejection) => {
+          // A block the server doesn't know about is already gone, nothing to restore
+          if (!rejection || rejection.reason === "block_not_found") {
+            historyRef.current.record(command);
+            return;
+          }
+
+          // Roll back the optimistic removal
+          addBlockToScene(removedBlock);
+        });
       }
     }
 
@@ -1208,44 +1951,535 @@ function MinecraftBuilder() {
     }
 
     document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("pointerdown", handlePointerDown, true);
+    document.addEventListener("pointerup", handlePointerUp);
     document.addEventListener("mousedown", handleMouseClick);
     document.addEventListener("contextmenu", handleContextMenu);
     document.addEventListener("keydown", handleKeyDown);
 
     return () => {
       document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("pointerdown", handlePointerDown, true);
+      document.removeEventListener("pointerup", handlePointerUp);
       document.removeEventListener("mousedown", handleMouseClick);
       document.removeEventListener("contextmenu", handleContextMenu);
       document.removeEventListener("keydown", handleKeyDown);
     };
-  }, [blocks, selectedColor, selectedBlockType, blockMaterialsCache, isCollaborative]);
+  }, [selectedColor, selectedBlockType, isCollaborative, roomId]);
 
   // Handle saving a new block definition
-  function handleSaveBlockDefinition(newBlock: IBlockDefinition) {
-    // Add the new block to custom blocks
-    setCustomBlocks((prev) => [...prev, newBlock]);
-
+  async function handleSaveBlockDefinition(newBlock: IBlockDefinition) {
     // Close the block definition tool
     setShowBlockDefinitionTool(false);
 
+    // In a room the definition is shared, so the server has to accept it first
+    if (isCollaborative) {
+      const rejection = await sendBlockUpdate("define_block", { definition: newBlock });
+      if (rejection) {
+        alert(`Failed to save block: ${rejection.error}`);
+        return;
+      }
+    }
+
+    applyBlockDefinitions([newBlock]);
+    saveBlocks([newBlock]);
+
     // Set the new block type as selected
     setSelectedBlockType(newBlock.id);
+  }
+
+  // Handle deleting a custom block definition from the block definition tool
+  async function handleDeleteBlockDefinition(
+    block: IBlockDefinition,
+    replaceWith: string | null
+  ) {
+    // In a room the server changes the placed blocks for everyone
+    if (isCollaborative) {
+      const rejection = await sendBlockUpdate("delete_block_definition", {
+        blockTypeId: block.id,
+        replaceWith,
+      });
+      // A definition only we had (never shared with the room) can still be deleted,
+      // any other rejection (like an unknown replacement type) left the room unchanged
+      if (rejection && rejection.reason !== "definition_not_found") {
+        alert(`Failed to delete block: ${rejection.error}`);
+        return;
+      }
+    }
+
+    removeBlockDefinition(block.id, replaceWith);
+    removeSavedBlocks([block.id]);
+  }
+
+  // Drop a custom block definition, placed blocks of its type are removed
+  // or changed to the replaceWith block type
+  function removeBlockDefinition(blockTypeId: string, replaceWith: string | null) {
+    setCustomBlocks((prev) => prev.filter((block) => block.id !== blockTypeId));
+
+    const affected = blockStoreRef.current
+      .toArray()
+      .filter((block) => block.blockType === blockTypeId);
+    removeBlocksFromScene(affected.map((block) => block.id));
+    if (replaceWith) {
+      addBlocksToScene(affected.map((block) => ({ ...block, blockType: replaceWith })));
+    }
+
+    if (selectedBlockType === blockTypeId) {
+      setSelectedBlockType(BLOCK_TYPES.GRASS_BLOCK.id);
+    }
+
+    // Free the definition's geometry, the atlas materials stay for the other blocks
+    const { [blockTypeId]: oldModel, ...cache } = blockModelsRef.current;
+    updateBlockModelsCache(cache);
+    oldModel?.geometry.dispose();
+  }
+
+  // Open the block definition tool, optionally with a custom block to edit
+  function openBlockDefinitionTool(block?: IBlockDefinition) {
+    setEditingBlock(block);
+    setShowBlockDefinitionTool(true);
+  }
 
-    // Reload block materials
-    preloadBlockMaterials([newBlock]);
+  // Define blocks in the room, returns the ones the server accepted
+  async function shareBlockDefinitions(definitions: IBlockDefinition[]) {
+    const accepted: IBlockDefinition[] = [];
+    for (const definition of definitions) {
+      const rejection = await sendBlockUpdate("define_block", { definition });
+      if (rejection) {
+        console.warn(`Couldn't share block ${definition.id}: ${rejection.error}`);
+      } else {
+        accepted.push(definition);
+      }
+    }
+    return accepted;
   }
 
-  // Preload materials for custom blocks
-  async function preloadBlockMaterials(blocks: IBlockDefinition[]) {
-    const cache = { ...blockMaterialsCache };
+  // Download the custom blocks as a palette file
+  function handleExportPalette() {
+    if (customBlocks.length === 0) {
+      alert("There are no custom blocks to export yet.");
+      return;
+    }
 
-    // Load materials for each block
-    for (const block of blocks) {
-      const materials = await createBlockMaterials(block.faces);
-      cache[block.id] = materials;
+    const blob = new Blob([exportPalette(customBlocks)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "block-palette.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Import the blocks from a palette file picked by the user
+  async function handleImportPalette(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    let imported: IBlockDefinition[];
+    try {
+      imported = parsePalette(await file.text());
+    } catch (error) {
+      alert(`Failed to import palette: ${(error as Error).message}`);
+      return;
     }
 
-    setBlockMaterialsCache(cache);
+    // Ask what to do with blocks whose id we already use for a different block
+    const collisions = findIdCollisions(imported, customBlocks);
+    let strategy: "replace" | "rename" = "rename";
+    if (collisions.length > 0) {
+      strategy = confirm(
+        `${collisions.length} block(s) in this palette use ids you already have ` +
+          `(${collisions.map((block) => block.id).join(", ")}).\n\n` +
+          "OK replaces your blocks with the imported ones, Cancel imports them as copies with new ids."
+      )
+        ? "replace"
+        : "rename";
+    }
+
+    let blocks = resolveIdCollisions(imported, customBlocks, strategy);
+    if (blocks.length === 0) {
+      alert("All blocks in this palette are already in your palette.");
+      return;
+    }
+
+    // In a room the blocks are shared, so only keep what the server accepted
+    if (isCollaborative) {
+      blocks = await shareBlockDefinitions(blocks);
+    }
+
+    applyBlockDefinitions(blocks);
+    saveBlocks(blocks);
+    alert(`Imported ${blocks.length} block(s).`);
+  }
+
+  // Use custom block definitions: list them in the UI, build their materials
+  // and retexture placed blocks, replaceAll swaps out the whole list (joining a room)
+  async function applyBlockDefinitions(
+    definitions: IBlockDefinition[],
+    replaceAll = false
+  ) {
+    setCustomBlocks((prev) =>
+      mergeBlockDefinitions(replaceAll ? [] : prev, definitions)
+    );
+
+    // Load the model of each block
+    const models: { [key: string]: IBlockModel } = {};
+    for (const definition of definitions) {
+      models[definition.id] = await createBlockModel(definition.faces, definition.transparent);
+    }
+
+    // Free the geometries of edited definitions once nothing uses them
+    const previous = blockModelsRef.current;
+    const replaced = Object.keys(models)
+      .map((id) => previous[id])
+      .filter(Boolean);
+
+    const cache = { ...previous, ...models };
+    updateBlockModelsCache(cache);
+    refreshBlockModels(new Set(Object.keys(models)));
+
+    replaced.forEach((oldModel) => oldModel.geometry.dispose());
+  }
+
+  // Use uploaded textures, replaceAll swaps out the whole list (joining a room)
+  // The materials are rebuilt once the manifest with them is ready
+  function applyUserTextures(textures: IUserTexture[], replaceAll = false) {
+    const merged = mergeUserTextures(replaceAll ? [] : uploadedTexturesRef.current, textures);
+    uploadedTexturesRef.current = merged;
+    setUploadedTextures(merged);
+    setUserTextures(merged);
+  }
+
+  // Upload a texture from the block definition tool, in a room it's shared with everyone
+  async function handleUploadTexture(texture: IUserTexture) {
+    if (isCollaborative) {
+      const rejection = await sendBlockUpdate("upload_texture", { texture });
+      if (rejection) {
+        alert(`Failed to upload texture: ${rejection.error}`);
+        return false;
+      }
+    }
+
+    applyUserTextures([texture]);
+    saveTextures([texture]);
+    return true;
+  }
+
+  // Upload textures to the room
+  async function shareUserTextures(textures: IUserTexture[]) {
+    for (const texture of textures) {
+      const rejection = await sendBlockUpdate("upload_texture", { texture });
+      if (rejection) {
+        console.warn(`Couldn't share texture ${texture.name}: ${rejection.error}`);
+      }
+    }
+  }
+
+  // Switch to a texture pack, the materials are rebuilt once its manifest has loaded
+  function applyTexturePack(packId: string | null) {
+    setTexturePack(packId);
+    setTexturePackId(packId);
+  }
+
+  // Pick a texture pack, in a room it changes for everyone
+  async function handleSelectTexturePack(packId: string | null) {
+    if (isCollaborative) {
+      const rejection = await sendBlockUpdate("set_texture_pack", { packId });
+      if (rejection) {
+        alert(`Couldn't change the texture pack: ${rejection.error}`);
+        return false;
+      }
+    }
+
+    applyTexturePack(packId);
+    return true;
+  }
+
+  function applyBuildArea(area: IBuildArea) {
+    buildAreaRef.current = area;
+    setBuildArea(area);
+  }
+
+  // Resize the plot, in a room it changes for everyone
+  // Blocks can't be left outside it, so shrinking past them is refused
+  async function handleApplyBuildArea(area: IBuildArea) {
+    if (isCollaborative) {
+      const rejection = await sendBlockUpdate("resize_build_area", { buildArea: area });
+      if (rejection) {
+        alert(`Couldn't resize the build area: ${rejection.error}`);
+        return false;
+      }
+    } else {
+      const outside = blockStoreRef.current
+        .toArray()
+        .filter((block) => !isWithinBuildArea(block.x, block.y, block.z, area)).length;
+      if (outside > 0) {
+        alert(`Couldn't resize the build area: ${outside} blocks would be outside it, remove them first`);
+        return false;
+      }
+    }
+
+    applyBuildArea(area);
+    setShowBuildArea(false);
+    return true;
+  }
+
+  // Generate terrain over the ground, leaving out the cells that have blocks
+  // Returns null when it has too many blocks
+  function generateGroundTerrain(options: ITerrainOptions): IBlockPosition[] | null {
+    const terrain = generateTerrain(options, groundBoundsRef.current, MAX_TERRAIN_SIZE);
+    if (!terrain) return null;
+
+    return terrain
+      .filter((block) => !blockStoreRef.current.getAtPosition(block.x, block.y, block.z))
+      .map((block) => ({ ...block, id: uuidv4() }));
+  }
+
+  // Show the terrain the options give without adding it, returns its block count
+  // or null when it has too many blocks
+  function showTerrainPreview(options: ITerrainOptions): number | null {
+    hideTerrainPreview();
+    const scene = sceneRef.current;
+    const blocks = generateGroundTerrain(options);
+    if (!scene || !blocks) return null;
+
+    // Meshed like placed blocks, from a store of its own
+    const preview = new ChunkMesher(new VoxelStore(blocks), blockModel);
+    preview.markAll();
+    preview.update();
+    scene.add(preview.group);
+    terrainPreviewRef.current = preview;
+    return blocks.length;
+  }
+
+  function hideTerrainPreview() {
+    const preview = terrainPreviewRef.current;
+    if (!preview) return;
+
+    preview.clear();
+    sceneRef.current?.remove(preview.group);
+    terrainPreviewRef.current = null;
+  }
+
+  function closeTerrainPanel() {
+    hideTerrainPreview();
+    setShowTerrain(false);
+  }
+
+  // Add generated terrain, in a room the server generates it from the same options
+  // and sends it to everyone as one batch
+  async function handleApplyTerrain(options: ITerrainOptions) {
+    const ground = groundBoundsRef.current;
+
+    if (isCollaborative) {
+      const rejection = await sendBlockUpdate("generate_terrain", {
+        terrain: options,
+        from: cellToPosition(ground.min),
+        to: cellToPosition(ground.max),
+      });
+      if (rejection) {
+        alert(`Couldn't generate the terrain: ${rejection.error}`);
+        return false;
+      }
+    } else {
+      const blocks = generateGroundTerrain(options);
+      if (!blocks) {
+        alert(`Couldn't generate the terrain: it can't have more than ${MAX_TERRAIN_SIZE} blocks`);
+        return false;
+      }
+
+      historyRef.current.record({ added: addBlocksToScene(blocks), removed: [] });
+    }
+
+    closeTerrainPanel();
+    return true;
+  }
+
+  // The cell a selection corner goes in: the pointed block, or the cell on the base
+  function pointerCell(): ICell | null {
+    const hit = pointerHitRef.current;
+    if (!hit) return null;
+    if (hit.block) return hit.cell;
+    return { x: hit.cell.x + hit.normal.x, y: hit.cell.y + hit.normal.y, z: hit.cell.z + hit.normal.z };
+  }
+
+  // Select a box of cells, or nothing
+  function selectRegion(region: IRegion | null) {
+    selectionRef.current = region;
+    setSelection(region);
+    setSelectionError(null);
+
+    const outline = selectionOutlineRef.current;
+    if (!outline) return;
+    outline.visible = region !== null;
+    if (region) fitOutline(outline, region);
+  }
+
+  function copySelection() {
+    const region = selectionRef.current;
+    if (!region) return;
+
+    const copied = copyRegion(blockStoreRef.current, region);
+    clipboardRef.current = copied;
+    setClipboard(copied);
+  }
+
+  // Remove the selected blocks, as one command
+  function deleteSelection() {
+    const region = selectionRef.current;
+    if (!region) return;
+
+    const removed = Array.from(blockStoreRef.current.inRegion(region.min, region.max));
+    if (removed.length === 0) return;
+
+    applyCommand({ added: [], removed }).then((accepted) => historyRef.current.record(accepted));
+  }
+
+  function cutSelection() {
+    copySelection();
+    deleteSelection();
+  }
+
+  // Whether the room can take a change of this many blocks as one batch, so it's applied
+  // (and undone) all at once; shows why not otherwise
+  function fitsOneBatch(blockCount: number) {
+    if (!isCollaborative || blockCount <= MAX_BATCH_SIZE) return true;
+
+    setSelectionError(`Rooms take at most ${MAX_BATCH_SIZE} blocks in one change`);
+    return false;
+  }
+
+  // Apply a change to the selected blocks as one command, then select region once the room
+  // accepted it, so the selection never runs ahead of the blocks
+  async function applySelectionCommand(command: IBlockCommand, region: IRegion) {
+    selectionPendingRef.current = true;
+    try {
+      const accepted = await applyCommand(command);
+      if (isEmptyCommand(accepted)) {
+        setSelectionError("The room refused the change");
+        return;
+      }
+
+      historyRef.current.record(accepted);
+      selectRegion(region);
+    } finally {
+      selectionPendingRef.current = false;
+    }
+  }
+
+  // Replace the selected blocks with a transformed copy whose min corner is moved by offset,
+  // as one command, then select the blocks where they ended up
+  function transformSelection(
+    transform: (copied: IClipboard) => IClipboard,
+    offset: ICell = { x: 0, y: 0, z: 0 }
+  ) {
+    const region = selectionRef.current;
+    if (!region || selectionPendingRef.current) return;
+
+    const store = blockStoreRef.current;
+    const copied = transform(copyRegion(store, region));
+    const origin = { x: region.min.x + offset.x, y: region.min.y + offset.y, z: region.min.z + offset.z };
+    const target = clipboardRegion(copied, origin);
+
+    // The whole box has to stay in the build area, and only the selected blocks may be in its way
+    const corners = [cellToPosition(target.min), cellToPosition(target.max)];
+    if (corners.some(({ x, y, z }) => !isWithinBuildArea(x, y, z, buildAreaRef.current))) {
+      setSelectionError("The blocks would leave the build area");
+      return;
+    }
+    const removed = Array.from(store.inRegion(region.min, region.max));
+    const selectedIds = new Set(removed.map((block) => block.id));
+    for (const block of store.inRegion(target.min, target.max)) {
+      if (!selectedIds.has(block.id)) {
+        setSelectionError("Other blocks are in the way");
+        return;
+      }
+    }
+
+    // An empty selection only moves the box
+    if (removed.length === 0) {
+      selectRegion(target);
+      return;
+    }
+    if (!fitsOneBatch(removed.length + copied.blocks.length)) return;
+
+    applySelectionCommand({ added: placeClipboard(copied, origin, uuidv4), removed }, target);
+  }
+
+  // Show the blocks of a clipboard as a ghost that follows the pointer until they're placed
+  function startPaste(copied: IClipboard) {
+    const scene = sceneRef.current;
+    if (!scene || !fitsOneBatch(copied.blocks.length)) return;
+    hidePasteGhost();
+    setSelectionError(null);
+
+    // Meshed from a store of its own with the min corner at the origin, moved by the group
+    const ghost = new ChunkMesher(
+      new VoxelStore(placeClipboard(copied, { x: 0, y: 0, z: 0 }, uuidv4)),
+      blockModel
+    );
+    ghost.markAll();
+    ghost.update();
+
+    const outline = createOutline(0x00aaff);
+    fitOutline(outline, clipboardRegion(copied, { x: 0, y: 0, z: 0 }));
+    ghost.group.add(outline);
+    ghost.group.visible = false;
+    scene.add(ghost.group);
+
+    pasteRef.current = { clipboard: copied, ghost, outline, anchor: null };
+    setPasting(true);
+    movePasteGhost();
+  }
+
+  // Put the paste ghost on the cell in front of the pointed side
+  function movePasteGhost() {
+    const paste = pasteRef.current;
+    const hit = pointerHitRef.current;
+    if (!paste) return;
+
+    paste.anchor = hit
+      ? { x: hit.cell.x + hit.normal.x, y: hit.cell.y + hit.normal.y, z: hit.cell.z + hit.normal.z }
+      : null;
+    paste.ghost.group.visible = paste.anchor !== null;
+    if (paste.anchor) paste.ghost.group.position.set(paste.anchor.x, paste.anchor.y, paste.anchor.z);
+  }
+
+  function hidePasteGhost() {
+    const paste = pasteRef.current;
+    if (!paste) return;
+
+    paste.ghost.clear();
+    paste.outline.geometry.dispose();
+    sceneRef.current?.remove(paste.ghost.group);
+    pasteRef.current = null;
+  }
+
+  function cancelPaste() {
+    hidePasteGhost();
+    setPasting(false);
+  }
+
+  // Add the pasted blocks where the ghost is, as one command, and select them
+  // Blocks outside the build area or on taken cells are left out
+  function placePaste() {
+    const paste = pasteRef.current;
+    if (!paste?.anchor || selectionPendingRef.current) return;
+
+    const added = placeClipboard(paste.clipboard, paste.anchor, uuidv4).filter((block) =>
+      isWithinBuildArea(block.x, block.y, block.z, buildAreaRef.current)
+    );
+    const command = resolveCommand({ added, removed: [] }, blockStoreRef.current);
+    if (isEmptyCommand(command)) {
+      setSelectionError("Every cell there is taken or outside the build area");
+      return;
+    }
+
+    const region = clipboardRegion(paste.clipboard, paste.anchor);
+    cancelPaste();
+    applySelectionCommand(command, region);
   }
 
   // Combine built-in and custom block types for the UI
@@ -1267,15 +2501,26 @@ function MinecraftBuilder() {
       {/* Texture atlas preview */}
       {showTextureAtlas && (
         <div className="absolute top-4 right-4 z-10">
-          <TextureAtlasPreview src="/textures.webp" />
+          <TextureAtlasPreview />
         </div>
       )}
 
       {/* Block definition tool */}
       {showBlockDefinitionTool && (
         <BlockDefinitionTool
+          customBlocks={customBlocks}
+          initialBlock={editingBlock}
+          getPlacedCount={(blockTypeId) =>
+            // Rooms only have the chunks around the camera loaded, the rest may use it too
+            isCollaborative
+              ? null
+              : blockStoreRef.current.toArray().filter((block) => block.blockType === blockTypeId).length
+          }
           onClose={() => setShowBlockDefinitionTool(false)}
           onSave={handleSaveBlockDefinition}
+          onDelete={handleDeleteBlockDefinition}
+          userTextures={uploadedTextures}
+          onUploadTexture={handleUploadTexture}
         />
       )}
 
@@ -1313,6 +2558,54 @@ function MinecraftBuilder() {
         </div>
       )}
 
+      {/* Room browser */}
+      {showRoomBrowser && (
+        <RoomBrowser
+          currentRoomId={isCollaborative ? roomId : undefined}
+          onJoin={joinRoom}
+          onClose={() => setShowRoomBrowser(false)}
+        />
+      )}
+
+      {/* Texture packs */}
+      {showTexturePacks && (
+        <TexturePackPanel
+          currentPackId={texturePackId}
+          shared={isCollaborative}
+          onSelect={handleSelectTexturePack}
+          onClose={() => setShowTexturePacks(false)}
+        />
+      )}
+
+      {/* Build area */}
+      {showBuildArea && (
+        <BuildAreaPanel
+          buildArea={buildArea}
+          shared={isCollaborative}
+          onApply={handleApplyBuildArea}
+          onClose={() => setShowBuildArea(false)}
+        />
+      )}
+
+      {/* Terrain generator */}
+      {showTerrain && (
+        <TerrainPanel
+          shared={isCollaborative}
+          onPreview={showTerrainPreview}
+          onApply={handleApplyTerrain}
+          onClose={closeTerrainPanel}
+        />
+      )}
+
+      {/* Chat */}
+      {isCollaborative && (
+        <ChatPanel
+          messages={chatMessages}
+          ownSessionId={sessionIdRef.current}
+          onSend={sendChatMessage}
+        />
+      )}
+
       {/* Connected Players List */}
       {showPlayersList && (
         <div className="absolute top-20 left-4 bg-slate-800 p-3 rounded-lg shadow-lg z-50">
@@ -1320,12 +2613,12 @@ function MinecraftBuilder() {
           <ul className="text-slate-300">
             <li className="flex items-center mb-1">
               <span className="w-3 h-3 bg-green-500 rounded-full mr-2"></span>
-              {userName} (You)
+              {displayName || userName} (You)
             </li>
             {connectedPlayers.map(player => (
-              <li key={player.name} className="flex items-center mb-1">
+              <li key={player.sessionId} className="flex items-center mb-1">
                 <span className="w-3 h-3 rounded-full mr-2" style={{
-                  backgroundColor: `hsl(${Math.abs(player.name.split('').reduce((a, b) => a + b.charCodeAt(0), 0) % 100) * 3.6}, 80%, 50%)`
+                  backgroundColor: `hsl(${playerHue(player.sessionId) * 360}, 80%, 50%)`
                 }}></span>
                 {player.name}
               </li>
@@ -1345,11 +2638,66 @@ function MinecraftBuilder() {
 
         <button
           className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
-          onClick={() => setShowBlockDefinitionTool(true)}
+          onClick={() => setShowTexturePacks(true)}
+          title="Import a resource pack or switch textures"
+        >
+          Texture Packs
+        </button>
+
+        <button
+          className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+          onClick={() => setShowBuildArea(true)}
+          title="Change the size of the plot"
+        >
+          Build Area
+        </button>
+
+        <button
+          className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+          onClick={() => setShowTerrain(true)}
+          title="Generate hills, water and trees on the plot"
+        >
+          Terrain
+        </button>
+
+        <button
+          className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+          onClick={() => openBlockDefinitionTool()}
         >
           Create New Block
         </button>
 
+        <button
+          className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+          onClick={() => paletteInputRef.current?.click()}
+          title="Import custom blocks from a palette file"
+        >
+          Import Blocks
+        </button>
+
+        <button
+          className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+          onClick={handleExportPalette}
+          title="Download your custom blocks as a palette file"
+        >
+          Export Blocks
+        </button>
+
+        <input
+          ref={paletteInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportPalette}
+          className="hidden"
+        />
+
+        <button
+          className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+          onClick={() => setShowRoomBrowser(true)}
+        >
+          Rooms
+        </button>
+
         {!isCollaborative ? (
           <button
             className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm"
@@ -1367,7 +2715,7 @@ function MinecraftBuilder() {
         )}
 
         <div className="px-3 py-1 bg-slate-700 text-white rounded-md text-sm">
-          WASD: Move • Right-click: Place block • Z key: Delete block
+          WASD: Move • Right-click: Place block • Z key: Delete block • Shift+drag: Select box • Ctrl+Z / Ctrl+Shift+Z: Undo / Redo
         </div>
 
         {isCollaborative && (
@@ -1376,13 +2724,94 @@ function MinecraftBuilder() {
             onMouseEnter={() => setShowPlayersList(true)}
             onMouseLeave={() => setShowPlayersList(false)}
           >
-            Room: {roomId} • {blocks.length} blocks • {connectedPlayers.length + 1} players
+            Room: {roomId} • {blockCount} blocks • {connectedPlayers.length + 1} players
           </div>
         )}
+
+        {isCollaborative && (
+          <button
+            className="px-3 py-1 bg-slate-700 text-white rounded-md hover:bg-slate-600 text-sm"
+            onClick={renamePlayer}
+            title="Change your display name"
+          >
+            Rename
+          </button>
+        )}
       </div>
 
       {/* Block selection UI */}
       <div className="absolute bottom-4 left-0 right-0 flex flex-col items-center">
+        {/* Box selection and paste */}
+        {pasting ? (
+          <div className="mb-2 flex items-center space-x-2 bg-slate-800 bg-opacity-70 text-white px-3 py-1 rounded-md text-sm">
+            <span>Right-click: Paste • R: Rotate • M / Shift+M: Mirror X / Z • Esc: Cancel</span>
+            <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={cancelPaste}>
+              Cancel
+            </button>
+            {selectionError && <span className="text-red-400 text-xs">{selectionError}</span>}
+          </div>
+        ) : (
+          (selection || clipboard) && (
+            <div className="mb-2 flex flex-col items-center bg-slate-800 bg-opacity-70 text-white px-3 py-1 rounded-md text-sm">
+              <div className="flex items-center space-x-2">
+                {selection && (
+                  <span>
+                    Selection {regionSize(selection).x}×{regionSize(selection).y}×{regionSize(selection).z}
+                  </span>
+                )}
+                {selection && (
+                  <>
+                    <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={copySelection} title="Ctrl+C">
+                      Copy
+                    </button>
+                    <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={cutSelection} title="Ctrl+X">
+                      Cut
+                    </button>
+                  </>
+                )}
+                {clipboard && (
+                  <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={() => startPaste(clipboard)} title="Ctrl+V">
+                    Paste
+                  </button>
+                )}
+                {selection && (
+                  <>
+                    <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={() => transformSelection(rotateClipboard)} title="R">
+                      Rotate
+                    </button>
+                    <button
+                      className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600"
+                      onClick={() => transformSelection((copied) => mirrorClipboard(copied, "x"))}
+                      title="M"
+                    >
+                      Mirror X
+                    </button>
+                    <button
+                      className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600"
+                      onClick={() => transformSelection((copied) => mirrorClipboard(copied, "z"))}
+                      title="Shift+M"
+                    >
+                      Mirror Z
+                    </button>
+                    <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={deleteSelection} title="Delete">
+                      Delete
+                    </button>
+                    <button className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600" onClick={() => selectRegion(null)} title="Esc">
+                      Clear
+                    </button>
+                  </>
+                )}
+              </div>
+              {selection && (
+                <div className="text-slate-300 text-xs mt-1">
+                  Arrow keys / Page Up / Page Down: Move • R: Rotate • M / Shift+M: Mirror X / Z
+                </div>
+              )}
+              {selectionError && <div className="text-red-400 text-xs mt-1">{selectionError}</div>}
+            </div>
+          )
+        )}
+
         <div className="mb-2 bg-slate-800 bg-opacity-70 text-white px-3 py-1 rounded-md text-sm">
           {selectedBlockType
             ? (
@@ -1420,12 +2849,6 @@ function MinecraftBuilder() {
           <div className="flex space-x-2 bg-slate-800 bg-opacity-70 p-2 rounded-lg overflow-x-auto max-w-[60vw]">
             <div className="text-white text-xs mr-2 self-center">Blocks:</div>
             {allBlockTypes.map((blockType) => {
-              // Calculate texture atlas coordinates for this texture
-              const textureIndex = blockType.faces.top; // Use top face for preview
-              const texturesPerRow = 64; // Use 64 textures per row (1024/16)
-              const row = Math.floor(textureIndex / texturesPerRow);
-              const col = textureIndex % texturesPerRow;
-
               return (
                 <button
                   key={blockType.id}
@@ -1439,19 +2862,23 @@ function MinecraftBuilder() {
                       : ""
                   }`}
                   onClick={() => setSelectedBlockType(blockType.id)}
-                  title={blockType.name}
+                  onDoubleClick={() => {
+                    // Custom blocks open in the block definition tool for editing
+                    const customBlock = customBlocks.find((b) => b.id === blockType.id);
+                    if (customBlock) openBlockDefinitionTool(customBlock);
+                  }}
+                  title={
+                    customBlocks.some((b) => b.id === blockType.id)
+                      ? `${blockType.name} (double-click to edit)`
+                      : blockType.name
+                  }
                 >
+                  {/* Use top face for preview */}
                   <div
                     style={{
-                      width: "40px", // 2.4x the texture size (16px)
-                      height: "40px", // 2.4x the texture size (16px)
-                      backgroundImage: `url('/textures.webp')`,
-                      backgroundSize: `${64 * 16 * 2.4}px`, // 2.4x scaling
-                      backgroundPosition: `-${col * 16 * 2.4}px -${
-                        row * 16 * 2.4
-                      }px`,
-                      backgroundRepeat: "no-repeat",
-                      imageRendering: "pixelated",
+                      width: "40px",
+                      height: "40px",
+                      ...textureTileStyle(blockType.faces.top, textureManifest, 40),
                     }}
                   />
                 </button>
@@ -1461,7 +2888,7 @@ function MinecraftBuilder() {
             {/* Add new block button */}
             <button
               className="w-10 h-10 rounded-lg border-2 border-dashed border-gray-500 flex items-center justify-center hover:border-white transition-colors"
-              onClick={() => setShowBlockDefinitionTool(true)}
+              onClick={() => openBlockDefinitionTool()}
               title="Create New Block"
             >
               <span className="text-gray-400 text-xl">+</span>
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { IRoomSummary } from "../utils/roomManager";
+import {
+  DEFAULT_BUILD_AREA,
+  IBuildArea,
+  MAX_BUILD_SIZE,
+  MAX_NAME_LENGTH,
+  MIN_BUILD_SIZE,
+  validateBuildArea,
+} from "../utils/blockValidation";
+
+interface IRoomBrowserProps {
+  currentRoomId?: string;
+  onJoin: (roomId: string) => void;
+  onClose: () => void;
+}
+
+// How long ago something happened, e.g. "5 min ago"
+function formatLastActivity(timestamp: number) {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+function RoomBrowser({ currentRoomId, onJoin, onClose }: IRoomBrowserProps) {
+  const [rooms, setRooms] = useState<IRoomSummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newRoomName, setNewRoomName] = useState<string>("");
+  const [creating, setCreating] = useState<boolean>(false);
+  // Plot size of the new room
+  const [newRoomArea, setNewRoomArea] = useState<IBuildArea>(DEFAULT_BUILD_AREA);
+
+  // Fetch the room list from the lobby API
+  async function loadRooms() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/rooms");
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+      const data = await response.json();
+      setRooms(data.rooms);
+    } catch (err) {
+      console.error("Failed to load rooms:", err);
+      setError("Failed to load rooms");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRooms();
+  }, []);
+
+  // Create a named room and join it
+  async function handleCreateRoom(e: React.FormEvent) {
+    e.preventDefault();
+    const name = newRoomName.trim();
+    if (!name) return;
+
+    const rejection = validateBuildArea(newRoomArea);
+    if (rejection) {
+      setError(rejection.error);
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/rooms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, buildArea: newRoomArea }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to create room");
+        return;
+      }
+
+      onJoin(data.room.id);
+    } catch (err) {
+      console.error("Failed to create room:", err);
+      setError("Failed to create room");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-slate-800 p-6 rounded-lg shadow-lg z-50 w-[28rem] max-w-full">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-white font-medium">Rooms</h3>
+        <button
+          onClick={loadRooms}
+          disabled={loading}
+          className="px-2 py-1 bg-slate-600 text-white rounded hover:bg-slate-700 text-sm disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {/* Room list */}
+      <div className="max-h-72 overflow-y-auto mb-4">
+        {loading && rooms.length === 0 ? (
+          <p className="text-slate-400 text-sm">Loading rooms...</p>
+        ) : rooms.length === 0 ? (
+          <p className="text-slate-400 text-sm">No rooms yet, create the first one below.</p>
+        ) : (
+          <ul className="space-y-2">
+            {rooms.map((room) => (
+              <li
+                key={room.id}
+                className="flex items-center justify-between bg-slate-700 rounded px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="text-white truncate">
+                    {room.name}
+                    {room.name !== room.id && (
+                      <span className="text-slate-400 text-xs ml-2">{room.id}</span>
+                    )}
+                  </div>
+                  <div className="text-slate-400 text-xs">
+                    {room.buildArea.unbounded
+                      ? `Open world, ${room.buildArea.height} high`
+                      : `${room.buildArea.width}×${room.buildArea.depth}×${room.buildArea.height}`}{" "}
+                    •{" "}
+                    {room.blockCount} blocks • {room.playerCount} players •{" "}
+                    {formatLastActivity(room.lastActivity)}
+                  </div>
+                </div>
+
+                {room.id === currentRoomId ? (
+                  <span className="text-green-400 text-sm ml-2">Current</span>
+                ) : (
+                  <button
+                    onClick={() => onJoin(room.id)}
+                    className="ml-2 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+                  >
+                    Join
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Create a room */}
+      <form onSubmit={handleCreateRoom} className="mb-4">
+        <div className="flex">
+          <input
+            type="text"
+            value={newRoomName}
+            onChange={(e) => setNewRoomName(e.target.value)}
+            placeholder="New room name"
+            maxLength={MAX_NAME_LENGTH}
+            className="flex-grow px-3 py-2 bg-slate-700 text-white rounded-l"
+          />
+          <button
+            type="submit"
+            disabled={creating || !newRoomName.trim()}
+            className="bg-green-600 text-white px-4 rounded-r hover:bg-green-700 disabled:opacity-50"
+          >
+            Create
+          </button>
+        </div>
+
+        {/* Plot size, it can be changed later from the room */}
+        <div className="flex items-center space-x-2 mt-2 text-slate-400 text-xs">
+          <span>Build area</span>
+          {(["width", "depth", "height"] as const).map((key) => (
+            <input
+              key={key}
+              type="number"
+              min={MIN_BUILD_SIZE}
+              max={MAX_BUILD_SIZE}
+              value={newRoomArea[key]}
+              disabled={newRoomArea.unbounded && key !== "height"}
+              onChange={(e) => setNewRoomArea({ ...newRoomArea, [key]: Number(e.target.value) })}
+              title={key.charAt(0).toUpperCase() + key.slice(1)}
+              className="w-16 px-2 py-1 bg-slate-700 text-white rounded disabled:opacity-50"
+            />
+          ))}
+          <span>W × D × H</span>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={!!newRoomArea.unbounded}
+              onChange={(e) => setNewRoomArea({ ...newRoomArea, unbounded: e.target.checked })}
+              className="mr-1"
+            />
+            Open world
+          </label>
+        </div>
+      </form>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      <div className="flex justify-end">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-700"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RoomBrowser;
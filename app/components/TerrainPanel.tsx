@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_BUILD_SIZE, validateTerrainOptions } from "../utils/blockValidation";
+import { DEFAULT_TERRAIN_OPTIONS, ITerrainOptions } from "../utils/terrainGenerator";
+
+interface ITerrainPanelProps {
+  shared: boolean; // Whether the terrain is added for everyone in the room
+  onPreview: (options: ITerrainOptions) => number | null; // Shows the terrain, returns its block count or null when it's too big
+  onApply: (options: ITerrainOptions) => Promise<boolean>; // Resolves to false when the terrain wasn't added
+  onClose: () => void; // Also hides the preview
+}
+
+type NumberField = "seed" | "baseHeight" | "hillHeight" | "hillSize" | "dirtDepth" | "waterLevel";
+
+const FIELDS: { key: NumberField; label: string; min: number }[] = [
+  { key: "baseHeight", label: "Ground height", min: 1 },
+  { key: "hillHeight", label: "Hill height", min: 0 },
+  { key: "hillSize", label: "Hill size", min: 1 },
+  { key: "dirtDepth", label: "Dirt depth", min: 0 },
+];
+
+// Seeds picked by the Random button
+function randomSeed() {
+  return Math.floor(Math.random() * 1000000);
+}
+
+function TerrainPanel({ shared, onPreview, onApply, onClose }: ITerrainPanelProps) {
+  // Kept as text while typing, so fields can be emptied
+  const [fields, setFields] = useState<{ [key in NumberField]: string }>({
+    seed: String(randomSeed()),
+    baseHeight: String(DEFAULT_TERRAIN_OPTIONS.baseHeight),
+    hillHeight: String(DEFAULT_TERRAIN_OPTIONS.hillHeight),
+    hillSize: String(DEFAULT_TERRAIN_OPTIONS.hillSize),
+    dirtDepth: String(DEFAULT_TERRAIN_OPTIONS.dirtDepth),
+    waterLevel: "3",
+  });
+  const [water, setWater] = useState<boolean>(false);
+  // Tree density in percent
+  const [trees, setTrees] = useState<number>(DEFAULT_TERRAIN_OPTIONS.treeDensity * 100);
+  // Blocks in the terrain shown in the scene, null when nothing is previewed
+  const [previewSize, setPreviewSize] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState<boolean>(false);
+
+  // Read the settings from the form, or show why they can't be used
+  function readOptions(): ITerrainOptions | null {
+    const options: ITerrainOptions = {
+      seed: Number(fields.seed),
+      baseHeight: Number(fields.baseHeight),
+      hillHeight: Number(fields.hillHeight),
+      hillSize: Number(fields.hillSize),
+      dirtDepth: Number(fields.dirtDepth),
+      waterLevel: water ? Number(fields.waterLevel) : null,
+      treeDensity: trees / 100,
+    };
+    const rejection = validateTerrainOptions(options);
+    setError(rejection?.error ?? null);
+    return rejection ? null : options;
+  }
+
+  function handlePreview() {
+    const options = readOptions();
+    if (!options) return;
+
+    const size = onPreview(options);
+    setPreviewSize(size);
+    if (size === null) setError("The terrain has too many blocks, make it lower or the build area smaller");
+  }
+
+  async function handleApply(e: React.FormEvent) {
+    e.preventDefault();
+
+    const options = readOptions();
+    if (!options) return;
+
+    setApplying(true);
+    try {
+      await onApply(options);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-slate-800 p-6 rounded-lg shadow-lg z-50 w-[26rem] max-w-full">
+      <h3 className="text-white font-medium mb-2">Generate Terrain</h3>
+      <p className="text-slate-400 text-xs mb-4">
+        Hills of grass, dirt and stone across the build area{shared ? ", added for everyone in this room" : ""}.
+        The same seed and settings always give the same terrain. Cells that already have a block are kept.
+      </p>
+
+      <form onSubmit={handleApply}>
+        <div className="flex items-end space-x-2 mb-4">
+          <label className="flex-1 text-slate-300 text-xs">
+            Seed
+            <input
+              type="number"
+              value={fields.seed}
+              onChange={(e) => setFields({ ...fields, seed: e.target.value })}
+              className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded text-sm"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => setFields({ ...fields, seed: String(randomSeed()) })}
+            className="px-3 py-1 bg-slate-600 text-white rounded hover:bg-slate-700 text-sm"
+          >
+            Random
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {FIELDS.map(({ key, label, min }) => (
+            <label key={key} className="text-slate-300 text-xs">
+              {label}
+              <input
+                type="number"
+                min={min}
+                max={MAX_BUILD_SIZE}
+                value={fields[key]}
+                onChange={(e) => setFields({ ...fields, [key]: e.target.value })}
+                className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded text-sm"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-2 mb-4 text-slate-300 text-sm">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={water}
+              onChange={(e) => setWater(e.target.checked)}
+              className="mr-2"
+            />
+            Water up to height
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={MAX_BUILD_SIZE}
+            value={fields.waterLevel}
+            disabled={!water}
+            onChange={(e) => setFields({ ...fields, waterLevel: e.target.value })}
+            className="w-16 px-2 py-1 bg-slate-700 text-white rounded text-sm disabled:opacity-50"
+          />
+        </div>
+
+        <label className="block text-slate-300 text-xs mb-4">
+          Trees ({trees}%)
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={trees}
+            onChange={(e) => setTrees(Number(e.target.value))}
+            className="w-full mt-1"
+          />
+        </label>
+
+        {previewSize !== null && (
+          <p className="text-slate-400 text-sm mb-4">Preview: {previewSize} new blocks</p>
+        )}
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-700"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handlePreview}
+            className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-700"
+          >
+            Preview
+          </button>
+          <button
+            type="submit"
+            disabled={applying}
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            Generate
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default TerrainPanel;
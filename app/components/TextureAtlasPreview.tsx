@@ -1,28 +1,41 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import {
+  atlasColumns,
+  atlasRows,
+  searchTextures,
+  textureName
+} from "../utils/textureManifest";
+import { useTextureManifest } from "./textureTiles";
 
 interface ITextureAtlasPreviewProps {
-  src: string;
-  cellSize?: number;
-  cols?: number;
-  rows?: number;
+  cellSize?: number; // Size of a texture cell on screen at 1x zoom, whatever the pack's tile size
   onHoverChange?: (index: number | null) => void;
+  onSelect?: (index: number) => void; // Called when a texture is picked from the search results
 }
 
 function TextureAtlasPreview({
-  src,
   cellSize = 16,
-  cols = 64, // 1024/16 = 64 textures per row
-  rows = 32,  // 512/16 = 32 rows
-  onHoverChange
+  onHoverChange,
+  onSelect
 }: ITextureAtlasPreviewProps) {
+  // The atlas image and its grid come from the texture manifest
+  const manifest = useTextureManifest();
+  const src = manifest?.atlas.source;
+  const cols = manifest ? atlasColumns(manifest.atlas) : 0;
+  const rows = manifest ? atlasRows(manifest.atlas) : 0;
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [zoom, setZoom] = useState<number>(2); // Starting zoom level (2x by default)
   const [loading, setLoading] = useState<boolean>(true);
   const imgRef = useRef<HTMLImageElement | null>(null);
   const [hoveredCell, setHoveredCell] = useState<{x: number, y: number} | null>(null);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  // Search textures by their name in the atlas manifest
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const searchResults = searchQuery.trim() ? searchTextures(manifest, searchQuery) : [];
   
   // Handle zoom change
   const handleZoomChange = (newZoom: number) => {
@@ -117,6 +130,19 @@ function TextureAtlasPreview({
       ctx.stroke();
     }
     
+    // Outline the textures matching the search, the picked one stronger
+    searchResults.forEach(({ index }) => {
+      const isFocused = index === focusedIndex;
+      ctx.strokeStyle = isFocused ? "rgba(0, 255, 255, 1)" : "rgba(0, 255, 255, 0.6)";
+      ctx.lineWidth = isFocused ? 3 : 2;
+      ctx.strokeRect(
+        (index % cols) * cellSize * zoomLevel,
+        Math.floor(index / cols) * cellSize * zoomLevel,
+        cellSize * zoomLevel,
+        cellSize * zoomLevel
+      );
+    });
+    
     // Highlight hovered cell if any
     if (hoveredCell) {
       ctx.fillStyle = "rgba(255, 255, 0, 0.3)";
@@ -181,6 +207,8 @@ function TextureAtlasPreview({
   
   // Load the texture atlas
   useEffect(() => {
+    if (!src) return;
+    
     setLoading(true);
     const img = new Image();
     img.src = src;
@@ -191,12 +219,20 @@ function TextureAtlasPreview({
     };
   }, [src, cellSize, cols, rows]);
   
-  // Redraw when zoom changes or hovered cell changes
+  // Redraw when zoom changes, hovered cell changes or the search changes
   useEffect(() => {
     if (imgRef.current) {
       drawAtlas(zoom);
     }
-  }, [zoom, hoveredCell]);
+  }, [zoom, hoveredCell, searchQuery, focusedIndex, manifest]);
+  
+  // Pick a texture from the search results
+  function handleSelectResult(index: number) {
+    setFocusedIndex(index);
+    if (onSelect) onSelect(index);
+  }
+  
+  const hoveredName = hoveredIndex !== null ? textureName(hoveredIndex, manifest) : undefined;
   
   return (
     <div className="bg-slate-800 p-4 rounded-lg shadow-lg w-full max-w-[1000px]">
@@ -225,6 +261,42 @@ function TextureAtlasPreview({
         </div>
       </div>
       
+      {/* Search by texture name */}
+      <div className="mb-3">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setFocusedIndex(null);
+          }}
+          placeholder="Search textures by name, e.g. oak"
+          className="w-full px-3 py-1.5 bg-slate-700 text-white rounded text-sm"
+        />
+        {searchQuery.trim() && (
+          <div className="flex flex-wrap gap-1 mt-2 max-h-24 overflow-y-auto">
+            {searchResults.length === 0 ? (
+              <span className="text-slate-400 text-xs">No textures named like that</span>
+            ) : (
+              searchResults.map(({ name, index }) => (
+                <button
+                  key={name}
+                  onClick={() => handleSelectResult(index)}
+                  className={`px-2 py-0.5 rounded text-xs ${
+                    focusedIndex === index
+                      ? "bg-cyan-600 text-white"
+                      : "bg-slate-700 text-slate-200 hover:bg-slate-600"
+                  }`}
+                  title={`Texture ${index}`}
+                >
+                  {name}
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+      
       <div className="relative border border-slate-600 rounded">
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-slate-900 bg-opacity-75 z-10 rounded">
@@ -269,10 +341,10 @@ function TextureAtlasPreview({
       <div className="flex flex-col mt-3 text-xs text-slate-300 space-y-1">
         <p>
           {hoveredIndex !== null 
-            ? `Current texture: ${hoveredIndex} (${Math.floor(hoveredIndex / cols)}, ${hoveredIndex % cols})`
-            : 'Numbers indicate the texture index (0-2047)'}
+            ? `Current texture: ${hoveredName ? `${hoveredName} · ` : ""}${hoveredIndex} (${Math.floor(hoveredIndex / cols)}, ${hoveredIndex % cols})`
+            : `Numbers indicate the texture index (0-${Math.max(0, cols * rows - 1)})`}
         </p>
-        <p>Ex: Texture 64 = first texture in second row</p>
+        <p>Ex: Texture {cols} = first texture in second row</p>
         <p>Use the zoom buttons to magnify textures</p>
       </div>
     </div>
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ITexturePackMeta } from "../utils/texturePackStorage";
+import { buildTexturePack } from "../utils/texturePack";
+import { MAX_NAME_LENGTH } from "../utils/blockValidation";
+
+interface ITexturePackPanelProps {
+  currentPackId: string | null; // null when the app's own textures are in use
+  shared: boolean; // Whether picking a pack changes it for everyone in the room
+  onSelect: (packId: string | null) => Promise<boolean>; // Resolves to false when the pack wasn't applied
+  onClose: () => void;
+}
+
+function TexturePackPanel({ currentPackId, shared, onSelect, onClose }: ITexturePackPanelProps) {
+  const [packs, setPacks] = useState<ITexturePackMeta[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  // What the import is doing right now, null when idle
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Fetch the uploaded packs from the pack API
+  async function loadPacks() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/packs");
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+      const data = await response.json();
+      setPacks(data.packs);
+    } catch (err) {
+      console.error("Failed to load texture packs:", err);
+      setError("Failed to load texture packs");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadPacks();
+  }, []);
+
+  // Pack the textures of a resource pack zip, upload them and switch to the new pack
+  async function handleImport(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    setError(null);
+
+    try {
+      setImportStatus("Packing textures...");
+      const pack = await buildTexturePack(await file.arrayBuffer());
+
+      setImportStatus("Uploading...");
+      const form = new FormData();
+      form.append("name", file.name.replace(/\.zip$/i, "").substring(0, MAX_NAME_LENGTH) || "Resource pack");
+      form.append("manifest", JSON.stringify(pack.manifest));
+      form.append("atlas", pack.atlas, "atlas.png");
+
+      const response = await fetch("/api/packs", { method: "POST", body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to upload texture pack");
+        return;
+      }
+
+      await loadPacks();
+      await onSelect(data.pack.id);
+    } catch (err) {
+      console.error("Failed to import texture pack:", err);
+      setError(`Failed to import texture pack: ${(err as Error).message}`);
+    } finally {
+      setImportStatus(null);
+    }
+  }
+
+  function renderPackRow(packId: string | null, name: string, details: string) {
+    return (
+      <li
+        key={packId || "default"}
+        className="flex items-center justify-between bg-slate-700 rounded px-3 py-2"
+      >
+        <div className="min-w-0">
+          <div className="text-white truncate">{name}</div>
+          <div className="text-slate-400 text-xs">{details}</div>
+        </div>
+
+        {packId === currentPackId ? (
+          <span className="text-green-400 text-sm ml-2">In use</span>
+        ) : (
+          <button
+            onClick={() => onSelect(packId)}
+            disabled={importStatus !== null}
+            className="ml-2 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            Use
+          </button>
+        )}
+      </li>
+    );
+  }
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-slate-800 p-6 rounded-lg shadow-lg z-50 w-[28rem] max-w-full">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-white font-medium">Texture Packs</h3>
+        <button
+          onClick={loadPacks}
+          disabled={loading}
+          className="px-2 py-1 bg-slate-600 text-white rounded hover:bg-slate-700 text-sm disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-slate-400 text-xs mb-4">
+        {shared
+          ? "The pack you pick is used by everyone in this room."
+          : "Blocks refer to textures by name, so they keep their look in any pack that has those names."}
+      </p>
+
+      {/* Pack list */}
+      <div className="max-h-72 overflow-y-auto mb-4">
+        <ul className="space-y-2">
+          {renderPackRow(null, "Default textures", "The textures that come with the builder")}
+          {packs.map((pack) =>
+            renderPackRow(
+              pack.id,
+              pack.name,
+              `${pack.textureCount} textures • ${pack.tileSize}px`
+            )
+          )}
+        </ul>
+        {loading && packs.length === 0 && (
+          <p className="text-slate-400 text-sm mt-2">Loading texture packs...</p>
+        )}
+      </div>
+
+      {/* Import a resource pack */}
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={importStatus !== null}
+        className="w-full mb-4 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+        title="A Minecraft resource pack, its textures/block images become the atlas"
+      >
+        {importStatus || "Import Resource Pack (.zip)"}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/zip,.zip"
+        onChange={handleImport}
+        className="hidden"
+      />
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      <div className="flex justify-end">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-700"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TexturePackPanel;
@@ -0,0 +1,61 @@
+import { CSSProperties, useEffect, useState } from "react";
+import { TextureRef } from "../utils/blockDefinitions";
+import {
+  atlasColumns,
+  atlasRows,
+  getTextureManifest,
+  getTexturesVersion,
+  ITextureManifest,
+  locateTexture,
+  onTexturesChange
+} from "../utils/textureManifest";
+
+// Load the texture manifest in a component, null until it has loaded
+// Follows texture pack and uploaded texture changes
+export function useTextureManifest(): ITextureManifest | null {
+  const [manifest, setManifest] = useState<ITextureManifest | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    function load() {
+      const version = getTexturesVersion();
+      getTextureManifest().then((loaded) => {
+        // Ignore manifests that changed again while loading
+        if (!cancelled && version === getTexturesVersion()) setManifest(loaded);
+      });
+    }
+
+    load();
+    const unsubscribe = onTexturesChange(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return manifest;
+}
+
+// CSS that shows a texture as the background of an element of displaySize pixels
+export function textureTileStyle(
+  texture: TextureRef,
+  manifest: ITextureManifest | null,
+  displaySize: number
+): CSSProperties {
+  if (!manifest) return {};
+
+  const { atlas, index } = locateTexture(texture, manifest);
+  const columns = atlasColumns(atlas);
+  const rows = atlasRows(atlas);
+  const col = index % columns;
+  const row = Math.floor(index / columns);
+
+  return {
+    backgroundImage: `url('${atlas.source}')`,
+    backgroundSize: `${columns * displaySize}px ${rows * displaySize}px`,
+    backgroundPosition: `-${col * displaySize}px -${row * displaySize}px`,
+    backgroundRepeat: "no-repeat",
+    imageRendering: "pixelated",
+  };
+}
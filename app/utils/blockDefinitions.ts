@@ -1,20 +1,30 @@
 // Texture coordinates are based on a texture atlas where each texture is 16x16 pixels
-// The coordinates are specified as the index (starting from 0) of the texture in the atlas
+// A texture is either its name in the atlas manifest (public/textures.json) or
+// the index (starting from 0) of its cell in the atlas
+// Textures uploaded by players are named "custom/<name>"
+export type TextureRef = string | number;
+
+// A texture uploaded by a player, kept with the room and drawn into an extension atlas
+export interface IUserTexture {
+  name: string; // "custom/<name>", the name faces refer to it by
+  image: string; // PNG as a data URL
+}
 
 // Define interfaces for block textures
 export interface IBlockFaces {
-  top: number;
-  bottom: number;
-  front: number;
-  back: number;
-  left: number;
-  right: number;
+  top: TextureRef;
+  bottom: TextureRef;
+  front: TextureRef;
+  back: TextureRef;
+  left: TextureRef;
+  right: TextureRef;
 }
 
 export interface IBlockDefinition {
   id: string;
   name: string;
   faces: IBlockFaces;
+  transparent?: boolean; // Its textures have see-through parts (like leaves), so blocks behind it show
 }
 
 // Define common Minecraft block types
@@ -23,84 +33,146 @@ export const BLOCK_TYPES: { [key: string]: IBlockDefinition } = {
     id: "stone_brick",
     name: "Stone Brick",
     faces: {
-      top: 212,
-      bottom: 212,
-      front: 212,
-      back: 212,
-      left: 212,
-      right: 212,
+      top: "stone_bricks",
+      bottom: "stone_bricks",
+      front: "stone_bricks",
+      back: "stone_bricks",
+      left: "stone_bricks",
+      right: "stone_bricks",
     },
   },
   WOOD_BLOCK: {
     id: "wood_block",
     name: "Wood Block",
     faces: {
-      top: 1158,
-      bottom: 1158,
-      front: 1157,
-      back: 1157,
-      left: 1157,
-      right: 1157,
+      top: "oak_log_top",
+      bottom: "oak_log_top",
+      front: "oak_log",
+      back: "oak_log",
+      left: "oak_log",
+      right: "oak_log",
     },
   },
   TNT: {
     id: "tnt",
     name: "TNT Block",
     faces: {
-      top: 1794,
-      bottom: 1792,
-      front: 1793,
-      back: 1793,
-      left: 1793,
-      right: 1793,
+      top: "tnt_top",
+      bottom: "tnt_bottom",
+      front: "tnt_side",
+      back: "tnt_side",
+      left: "tnt_side",
+      right: "tnt_side",
     },
   },
   PLANK_BLOCK: {
     id: "plank_block",
     name: "Plank Block",
     faces: {
-      top: 1667,
-      bottom: 1667,
-      front: 1667,
-      back: 1667,
-      left: 1667,
-      right: 1667,
+      top: "oak_planks",
+      bottom: "oak_planks",
+      front: "oak_planks",
+      back: "oak_planks",
+      left: "oak_planks",
+      right: "oak_planks",
     },
   },
   BRICK_BLOCK: {
     id: "brick_block",
     name: "Brick Block",
     faces: {
-      top: 585,
-      bottom: 585,
-      front: 585,
-      back: 585,
-      left: 585,
-      right: 585,
+      top: "bricks",
+      bottom: "bricks",
+      front: "bricks",
+      back: "bricks",
+      left: "bricks",
+      right: "bricks",
     },
   },
   BLACK_WOOL_BLOCK: {
     id: "black_wool_block",
     name: "Black Wool Block",
     faces: {
-      top: 399,
-      bottom: 399,
-      front: 399,
-      back: 399,
-      left: 399,
-      right: 399
+      top: "black_wool",
+      bottom: "black_wool",
+      front: "black_wool",
+      back: "black_wool",
+      left: "black_wool",
+      right: "black_wool"
     }
   },
   GRASS_BLOCK: {
     id: "grass_block",
     name: "Grass Block",
     faces: {
-      top: 1099,
-      bottom: 907,
-      front: 537,
-      back: 537,
-      left: 537,
-      right: 537
+      top: "grass_block_top",
+      bottom: "dirt",
+      front: "grass_block_side",
+      back: "grass_block_side",
+      left: "grass_block_side",
+      right: "grass_block_side"
+    }
+  },
+  DIRT_BLOCK: {
+    id: "dirt_block",
+    name: "Dirt Block",
+    faces: {
+      top: "dirt",
+      bottom: "dirt",
+      front: "dirt",
+      back: "dirt",
+      left: "dirt",
+      right: "dirt"
+    }
+  },
+  STONE_BLOCK: {
+    id: "stone_block",
+    name: "Stone Block",
+    faces: {
+      top: "stone",
+      bottom: "stone",
+      front: "stone",
+      back: "stone",
+      left: "stone",
+      right: "stone"
+    }
+  },
+  SAND_BLOCK: {
+    id: "sand_block",
+    name: "Sand Block",
+    faces: {
+      top: "sand",
+      bottom: "sand",
+      front: "sand",
+      back: "sand",
+      left: "sand",
+      right: "sand"
+    }
+  },
+  LEAVES_BLOCK: {
+    id: "leaves_block",
+    name: "Leaves Block",
+    faces: {
+      top: "oak_leaves",
+      bottom: "oak_leaves",
+      front: "oak_leaves",
+      back: "oak_leaves",
+      left: "oak_leaves",
+      right: "oak_leaves"
+    },
+    transparent: true
+  },
+  // The atlas has no water texture (Minecraft tints a gray one while rendering), so it's plain blue
+  WATER_BLOCK: {
+    id: "water_block",
+    name: "Water Block",
+    faces: {
+      top: "blue_concrete",
+      bottom: "blue_concrete",
+      front: "blue_concrete",
+      back: "blue_concrete",
+      left: "blue_concrete",
+      right: "blue_concrete"
     }
   },
 };
@@ -0,0 +1,190 @@
+import { BLOCK_ARRAY, IBlockDefinition, IBlockFaces } from "./blockDefinitions";
+import { sanitizeBlockDefinition, validateBlockDefinition } from "./blockValidation";
+
+// Custom blocks the user made or imported, kept in the browser across reloads
+const PALETTE_STORAGE_KEY = "minecraft_builder_custom_blocks";
+
+// Palette files say what they are and which version of the format they use
+const PALETTE_FORMAT = "minebuilder-palette";
+export const PALETTE_VERSION = 1;
+
+// A set of custom blocks as it is exported and imported
+export interface IBlockPalette {
+  format: string;
+  version: number;
+  blocks: IBlockDefinition[];
+}
+
+// What to do with imported blocks whose id is already in use
+export type IdCollisionStrategy = "replace" | "rename" | "skip";
+
+// Replace the definitions with the same ids, or add them
+export function mergeBlockDefinitions(
+  existing: IBlockDefinition[],
+  definitions: IBlockDefinition[]
+): IBlockDefinition[] {
+  const merged = [...existing];
+  definitions.forEach((definition) => {
+    const index = merged.findIndex((block) => block.id === definition.id);
+    if (index >= 0) {
+      merged[index] = definition;
+    } else {
+      merged.push(definition);
+    }
+  });
+  return merged;
+}
+
+// Keep only the definitions that pass validation, sanitized
+function validDefinitions(blocks: unknown[]): IBlockDefinition[] {
+  return blocks
+    .filter((block) => validateBlockDefinition(block) === null)
+    .map((block) => sanitizeBlockDefinition(block as IBlockDefinition));
+}
+
+// Load the custom blocks saved in this browser
+export function loadSavedBlocks(): IBlockDefinition[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PALETTE_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? validDefinitions(saved) : [];
+  } catch (error) {
+    console.error("Failed to load saved blocks:", error);
+    return [];
+  }
+}
+
+// Add or update custom blocks in this browser's saved blocks
+export function saveBlocks(definitions: IBlockDefinition[]) {
+  try {
+    const saved = mergeBlockDefinitions(loadSavedBlocks(), definitions);
+    localStorage.setItem(PALETTE_STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error("Failed to save blocks:", error);
+  }
+}
+
+// Forget custom blocks saved in this browser
+export function removeSavedBlocks(blockTypeIds: string[]) {
+  try {
+    const removed = new Set(blockTypeIds);
+    const saved = loadSavedBlocks().filter((block) => !removed.has(block.id));
+    localStorage.setItem(PALETTE_STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error("Failed to remove saved blocks:", error);
+  }
+}
+
+// Serialize custom blocks as a palette file
+export function exportPalette(blocks: IBlockDefinition[]): string {
+  const palette: IBlockPalette = {
+    format: PALETTE_FORMAT,
+    version: PALETTE_VERSION,
+    blocks: blocks.map(sanitizeBlockDefinition),
+  };
+  return JSON.stringify(palette, null, 2);
+}
+
+// Read a palette file, throws with a message for the user if it can't be imported
+export function parsePalette(json: string): IBlockDefinition[] {
+  let palette: any;
+  try {
+    palette = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!palette || palette.format !== PALETTE_FORMAT || !Array.isArray(palette.blocks)) {
+    throw new Error("The file is not a block palette");
+  }
+
+  if (!Number.isInteger(palette.version) || palette.version > PALETTE_VERSION) {
+    throw new Error(
+      `The palette uses version ${palette.version} of the format, this version of the builder reads up to ${PALETTE_VERSION}`
+    );
+  }
+
+  palette.blocks.forEach((block: unknown, index: number) => {
+    const rejection = validateBlockDefinition(block);
+    if (rejection) {
+      throw new Error(`Block ${index + 1} in the palette is invalid: ${rejection.error}`);
+    }
+  });
+
+  return palette.blocks.map(sanitizeBlockDefinition);
+}
+
+// Find an id that isn't taken yet by adding a number, e.g. "red_brick_2"
+function uniqueBlockTypeId(id: string, takenIds: Set<string>) {
+  let candidate = id;
+  for (let n = 2; takenIds.has(candidate); n++) {
+    candidate = `${id}_${n}`;
+  }
+  return candidate;
+}
+
+function hasSameFaces(a: IBlockDefinition, b: IBlockDefinition) {
+  return (Object.keys(a.faces) as Array<keyof IBlockFaces>).every(
+    (face) => a.faces[face] === b.faces[face]
+  );
+}
+
+// Blocks in an import whose id is already used by a different block
+export function findIdCollisions(
+  imported: IBlockDefinition[],
+  existing: IBlockDefinition[]
+): IBlockDefinition[] {
+  const byId = new Map(existing.map((block) => [block.id, block]));
+  return imported.filter((block) => {
+    const current = byId.get(block.id);
+    return (
+      current !== undefined &&
+      !(
+        current.name === block.name &&
+        !!current.transparent === !!block.transparent &&
+        hasSameFaces(current, block)
+      )
+    );
+  });
+}
+
+// Work out which imported blocks to apply, handling ids that are already in use
+// Built-in block types can never be replaced, imports using their ids are always renamed
+// Blocks identical to an existing one are left out since there's nothing to change
+export function resolveIdCollisions(
+  imported: IBlockDefinition[],
+  existing: IBlockDefinition[],
+  strategy: IdCollisionStrategy
+): IBlockDefinition[] {
+  const builtInIds = new Set(BLOCK_ARRAY.map((block) => block.id));
+  const collisions = new Set(findIdCollisions(imported, existing));
+  const existingIds = new Set(existing.map((block) => block.id));
+  const takenIds = new Set([...builtInIds, ...existingIds]);
+  const resolved: IBlockDefinition[] = [];
+
+  imported.forEach((block) => {
+    const isBuiltIn = builtInIds.has(block.id);
+
+    if (!isBuiltIn && !existingIds.has(block.id)) {
+      // New id, though the palette itself may use it twice
+      const id = uniqueBlockTypeId(block.id, takenIds);
+      takenIds.add(id);
+      resolved.push({ ...block, id });
+      return;
+    }
+
+    if (!isBuiltIn && !collisions.has(block)) return;
+
+    if (strategy === "skip" && !isBuiltIn) return;
+
+    if (strategy === "replace" && !isBuiltIn) {
+      resolved.push(block);
+      return;
+    }
+
+    const id = uniqueBlockTypeId(block.id, takenIds);
+    takenIds.add(id);
+    resolved.push({ ...block, id });
+  });
+
+  return resolved;
+}
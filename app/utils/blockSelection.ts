@@ -0,0 +1,94 @@
+import { blockCell, cellToPosition, IBlockPosition, ICell, IRegion, VoxelStore } from "./voxelStore";
+
+// A copied block, placed relative to the min corner of the region it was copied from
+export interface IClipboardBlock {
+  offset: ICell;
+  blockType?: string;
+  color?: string;
+}
+
+// Blocks copied out of a region, with the size of the region so empty space is kept
+export interface IClipboard {
+  size: ICell;
+  blocks: IClipboardBlock[];
+}
+
+// The region between two corner cells, given in any order
+export function regionBetween(a: ICell, b: ICell): IRegion {
+  return {
+    min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), z: Math.min(a.z, b.z) },
+    max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y), z: Math.max(a.z, b.z) },
+  };
+}
+
+// Size of a region in cells along each axis
+export function regionSize({ min, max }: IRegion): ICell {
+  return { x: max.x - min.x + 1, y: max.y - min.y + 1, z: max.z - min.z + 1 };
+}
+
+// The region a clipboard covers with its min corner at origin
+export function clipboardRegion(clipboard: IClipboard, origin: ICell): IRegion {
+  return {
+    min: origin,
+    max: {
+      x: origin.x + clipboard.size.x - 1,
+      y: origin.y + clipboard.size.y - 1,
+      z: origin.z + clipboard.size.z - 1,
+    },
+  };
+}
+
+// Copy the blocks of a region
+export function copyRegion(store: VoxelStore, region: IRegion): IClipboard {
+  const blocks = Array.from(store.inRegion(region.min, region.max)).map((block) => {
+    const cell = blockCell(block);
+    return {
+      offset: { x: cell.x - region.min.x, y: cell.y - region.min.y, z: cell.z - region.min.z },
+      blockType: block.blockType,
+      color: block.color,
+    };
+  });
+
+  return { size: regionSize(region), blocks };
+}
+
+// Turn the blocks a quarter turn around the Y axis, clockwise seen from above
+// Width and depth swap, the min corner stays where it was
+export function rotateClipboard({ size, blocks }: IClipboard): IClipboard {
+  return {
+    size: { x: size.z, y: size.y, z: size.x },
+    blocks: blocks.map((block) => ({
+      ...block,
+      offset: { x: size.z - 1 - block.offset.z, y: block.offset.y, z: block.offset.x },
+    })),
+  };
+}
+
+// Flip the blocks along the x or z axis
+export function mirrorClipboard({ size, blocks }: IClipboard, axis: "x" | "z"): IClipboard {
+  return {
+    size,
+    blocks: blocks.map((block) => ({
+      ...block,
+      offset: { ...block.offset, [axis]: size[axis] - 1 - block.offset[axis] },
+    })),
+  };
+}
+
+// New blocks for the clipboard with its min corner at origin
+export function placeClipboard(
+  clipboard: IClipboard,
+  origin: ICell,
+  newId: () => string
+): IBlockPosition[] {
+  return clipboard.blocks.map((block) => ({
+    ...cellToPosition({
+      x: origin.x + block.offset.x,
+      y: origin.y + block.offset.y,
+      z: origin.z + block.offset.z,
+    }),
+    blockType: block.blockType,
+    color: block.color,
+    id: newId(),
+  }));
+}
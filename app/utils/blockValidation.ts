@@ -0,0 +1,614 @@
+import { IBlockDefinition, IUserTexture } from "./blockDefinitions";
+import { IBlockPosition, ICell, positionToCell } from "./voxelStore";
+import type { ITerrainOptions } from "./terrainGenerator";
+
+// Size of a room's buildable area in blocks, centered on the origin with y starting at the base
+export interface IBuildArea {
+  width: number; // x
+  depth: number; // z
+  height: number; // y
+  unbounded?: boolean; // Open world, only the height applies (width and depth are kept for switching back)
+}
+
+// Size of rooms that haven't picked one, and of the editor when not in a room
+export const DEFAULT_BUILD_AREA: IBuildArea = {
+  width: 20,
+  depth: 20,
+  height: 20,
+};
+
+// Smallest and largest size along each axis a build area can have
+export const MIN_BUILD_SIZE = 1;
+export const MAX_BUILD_SIZE = 256;
+// How far from the origin blocks can go in an open world, along x and z
+export const MAX_WORLD_EXTENT = 1 << 20;
+
+// Most chunks a client can subscribe to at once, enough for the largest bounded plot
+export const MAX_SUBSCRIBED_CHUNKS = 4096;
+
+// Machine-readable reasons a block action can be rejected with
+export type ActionRejectionReason =
+  | "invalid_payload"
+  | "invalid_action"
+  | "out_of_bounds"
+  | "unknown_block_type"
+  | "cell_occupied"
+  | "duplicate_id"
+  | "block_not_found"
+  | "definition_not_found"
+  | "batch_too_large"
+  | "unknown_session"
+  | "name_taken"
+  | "unknown_texture_pack"
+  | "too_many_textures"
+  | "blocks_outside_area"
+  | "storage_failed";
+
+// Body of a rejected block action response
+export interface IActionRejection {
+  reason: ActionRejectionReason;
+  error: string;
+  status: number;
+}
+
+// Most blocks a single batch action (add_many, remove_many, replace_many, fill) may touch
+export const MAX_BATCH_SIZE = 10000;
+// Most blocks a generated terrain may have, undoing it takes a few batches
+export const MAX_TERRAIN_SIZE = 5 * MAX_BATCH_SIZE;
+
+// Longest display name a player can pick
+export const MAX_NAME_LENGTH = 32;
+
+// Longest chat message a player can send
+export const MAX_CHAT_LENGTH = 500;
+
+const MAX_ID_LENGTH = 64;
+const COLOR_PATTERN = /^([a-z]{1,20}|#[0-9a-f]{6})$/i;
+// Block type ids are lowercase snake_case, like the built-in ones
+const BLOCK_TYPE_ID_PATTERN = /^[a-z0-9_]{1,64}$/;
+const BLOCK_FACES = ["top", "bottom", "front", "back", "left", "right"];
+// Texture names as used in the atlas manifest
+export const TEXTURE_NAME_PATTERN = /^[a-z0-9_./-]{1,64}$/;
+// Texture packs are identified by a hash of their contents
+export const TEXTURE_PACK_ID_PATTERN = /^[0-9a-f]{16}$/;
+
+// Largest texture pack atlas image accepted, in bytes
+export const MAX_TEXTURE_PACK_SIZE = 16 * 1024 * 1024;
+// Largest atlas width or height in pixels, most GPUs can't sample bigger textures
+export const MAX_ATLAS_SIZE = 8192;
+// Largest texture size in a pack, enough for 128x HD packs
+export const MAX_TILE_SIZE = 128;
+
+// Names of textures uploaded by players, kept apart from the atlas names
+export const USER_TEXTURE_NAME_PATTERN = /^custom\/[a-z0-9_-]{1,48}$/;
+export const USER_TEXTURE_IMAGE_PREFIX = "data:image/png;base64,";
+// Most textures players can upload to a room
+export const MAX_USER_TEXTURES = 256;
+// Longest uploaded texture data URL, a 128x128 PNG fits easily
+export const MAX_USER_TEXTURE_SIZE = 96 * 1024;
+
+function reject(
+  reason: ActionRejectionReason,
+  error: string,
+  status = 400
+): IActionRejection {
+  return { reason, error, status };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isValidId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
+
+// Blocks sit at the center of a cell, so each coordinate is an integer + 0.5
+function isCellCenter(value: number) {
+  return Number.isInteger(value - 0.5);
+}
+
+// First and last cells of a build area (inclusive), odd sizes have the extra cell on the positive side
+export function buildAreaBounds(area: IBuildArea): { min: ICell; max: ICell } {
+  if (area.unbounded) {
+    return {
+      min: { x: -MAX_WORLD_EXTENT, y: 0, z: -MAX_WORLD_EXTENT },
+      max: { x: MAX_WORLD_EXTENT - 1, y: area.height - 1, z: MAX_WORLD_EXTENT - 1 },
+    };
+  }
+
+  const min = { x: -Math.floor(area.width / 2), y: 0, z: -Math.floor(area.depth / 2) };
+  return {
+    min,
+    max: { x: min.x + area.width - 1, y: area.height - 1, z: min.z + area.depth - 1 },
+  };
+}
+
+// Check if a block position (cell center) lies within the build area
+export function isWithinBuildArea(x: number, y: number, z: number, area: IBuildArea) {
+  const { min, max } = buildAreaBounds(area);
+  const cell = positionToCell(x, y, z);
+
+  return (
+    cell.x >= min.x &&
+    cell.x <= max.x &&
+    cell.y >= min.y &&
+    cell.y <= max.y &&
+    cell.z >= min.z &&
+    cell.z <= max.z
+  );
+}
+
+// Validate the size of a build area
+export function validateBuildArea(area: any): IActionRejection | null {
+  if (!area || typeof area !== "object") {
+    return reject("invalid_payload", "Missing build area");
+  }
+
+  const sizes = [area.width, area.depth, area.height];
+  if (!sizes.every((size) => Number.isInteger(size) && size >= MIN_BUILD_SIZE && size <= MAX_BUILD_SIZE)) {
+    return reject(
+      "invalid_payload",
+      `Build area width, depth and height must be whole numbers from ${MIN_BUILD_SIZE} to ${MAX_BUILD_SIZE}`
+    );
+  }
+
+  if (area.unbounded !== undefined && typeof area.unbounded !== "boolean") {
+    return reject("invalid_payload", "Build area unbounded must be a boolean");
+  }
+
+  return null;
+}
+
+// Pick only the known build area fields
+export function sanitizeBuildArea(area: IBuildArea): IBuildArea {
+  const sanitized: IBuildArea = { width: area.width, depth: area.depth, height: area.height };
+  if (area.unbounded) sanitized.unbounded = true;
+  return sanitized;
+}
+
+// Validate a box of chunks a client subscribes to (inclusive)
+function validateChunkBox(box: any): IActionRejection | null {
+  const isChunk = (chunk: any) =>
+    chunk &&
+    typeof chunk === "object" &&
+    Number.isInteger(chunk.x) &&
+    Number.isInteger(chunk.y) &&
+    Number.isInteger(chunk.z);
+
+  if (!box || typeof box !== "object" || !isChunk(box.min) || !isChunk(box.max)) {
+    return reject("invalid_payload", "Chunks must be a box with integer min and max chunk coordinates");
+  }
+
+  if (box.min.x > box.max.x || box.min.y > box.max.y || box.min.z > box.max.z) {
+    return reject("invalid_payload", "Chunk box min can't be past its max");
+  }
+
+  if (regionVolume(box.min, box.max) > MAX_SUBSCRIBED_CHUNKS) {
+    return reject("batch_too_large", `Can't subscribe to more than ${MAX_SUBSCRIBED_CHUNKS} chunks`, 413);
+  }
+
+  return null;
+}
+
+// Validate a cell center position inside the build area
+function validatePosition(position: any, area: IBuildArea): IActionRejection | null {
+  if (!position || typeof position !== "object") {
+    return reject("invalid_payload", "Missing position");
+  }
+
+  if (!isFiniteNumber(position.x) || !isFiniteNumber(position.y) || !isFiniteNumber(position.z)) {
+    return reject("invalid_payload", "Block coordinates must be numbers");
+  }
+
+  if (!isCellCenter(position.x) || !isCellCenter(position.y) || !isCellCenter(position.z)) {
+    return reject("invalid_payload", "Block coordinates must be cell centers");
+  }
+
+  if (!isWithinBuildArea(position.x, position.y, position.z, area)) {
+    return reject("out_of_bounds", "Block is outside the build area", 422);
+  }
+
+  return null;
+}
+
+// Validate what a block looks like: a known block type or a plain color
+function validateAppearance(block: any, blockTypeIds: Set<string>): IActionRejection | null {
+  if (block.blockType) {
+    if (typeof block.blockType !== "string" || !blockTypeIds.has(block.blockType)) {
+      return reject("unknown_block_type", `Unknown block type: ${block.blockType}`, 422);
+    }
+  } else if (typeof block.color !== "string" || !COLOR_PATTERN.test(block.color)) {
+    // Blocks without a type are plain colored blocks
+    return reject("invalid_payload", "Block needs a block type or a color");
+  }
+
+  return null;
+}
+
+// Validate a block for an add action
+function validateBlock(
+  block: any,
+  blockTypeIds: Set<string>,
+  area: IBuildArea
+): IActionRejection | null {
+  if (!block || typeof block !== "object") {
+    return reject("invalid_payload", "Missing block");
+  }
+
+  if (!isValidId(block.id)) {
+    return reject("invalid_payload", "Block id must be a non-empty string");
+  }
+
+  return validatePosition(block, area) || validateAppearance(block, blockTypeIds);
+}
+
+// Validate a list of items for a batch action, each checked by validateItem
+function validateBatch<T>(
+  items: unknown,
+  validateItem: (item: T) => IActionRejection | null
+): IActionRejection | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return reject("invalid_payload", "Batch must be a non-empty array");
+  }
+
+  if (items.length > MAX_BATCH_SIZE) {
+    return reject("batch_too_large", `Batch can't have more than ${MAX_BATCH_SIZE} items`, 413);
+  }
+
+  for (const item of items) {
+    const rejection = validateItem(item);
+    if (rejection) return rejection;
+  }
+
+  return null;
+}
+
+// A face texture is a name from the atlas manifest or a cell index
+function isTextureRef(value: unknown) {
+  if (typeof value === "string") return TEXTURE_NAME_PATTERN.test(value);
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Validate a custom block definition: an id, a display name and a texture for each face
+export function validateBlockDefinition(definition: any): IActionRejection | null {
+  if (!definition || typeof definition !== "object") {
+    return reject("invalid_payload", "Missing block definition");
+  }
+
+  if (typeof definition.id !== "string" || !BLOCK_TYPE_ID_PATTERN.test(definition.id)) {
+    return reject("invalid_payload", "Block type id must be lowercase letters, digits and underscores");
+  }
+
+  if (
+    typeof definition.name !== "string" ||
+    definition.name.trim().length === 0 ||
+    definition.name.trim().length > MAX_NAME_LENGTH
+  ) {
+    return reject("invalid_payload", `Block name must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (!definition.faces || typeof definition.faces !== "object") {
+    return reject("invalid_payload", "Block definition needs faces");
+  }
+
+  for (const face of BLOCK_FACES) {
+    if (!isTextureRef(definition.faces[face])) {
+      return reject("invalid_payload", `Texture for the ${face} face must be a texture name or index`);
+    }
+  }
+
+  if (definition.transparent !== undefined && typeof definition.transparent !== "boolean") {
+    return reject("invalid_payload", "Block transparent must be a boolean");
+  }
+
+  return null;
+}
+
+// Validate a texture manifest uploaded with a texture pack: the atlas grid and a cell for every name
+export function validateTextureManifest(manifest: any): IActionRejection | null {
+  if (!manifest || typeof manifest !== "object" || !manifest.atlas || typeof manifest.atlas !== "object") {
+    return reject("invalid_payload", "Texture manifest needs an atlas");
+  }
+
+  const { tileSize, width, height } = manifest.atlas;
+  if (!Number.isInteger(tileSize) || tileSize < 1 || tileSize > MAX_TILE_SIZE) {
+    return reject("invalid_payload", `Tile size must be 1 to ${MAX_TILE_SIZE} pixels`);
+  }
+  for (const size of [width, height]) {
+    if (!Number.isInteger(size) || size < tileSize || size > MAX_ATLAS_SIZE || size % tileSize !== 0) {
+      return reject("invalid_payload", `Atlas width and height must be multiples of the tile size up to ${MAX_ATLAS_SIZE} pixels`);
+    }
+  }
+
+  if (!manifest.textures || typeof manifest.textures !== "object" || Array.isArray(manifest.textures)) {
+    return reject("invalid_payload", "Texture manifest needs a textures object");
+  }
+
+  const cellCount = (width / tileSize) * (height / tileSize);
+  for (const [name, index] of Object.entries(manifest.textures)) {
+    if (!TEXTURE_NAME_PATTERN.test(name)) {
+      return reject("invalid_payload", `Invalid texture name: ${name}`);
+    }
+    if (!Number.isInteger(index) || (index as number) < 0 || (index as number) >= cellCount) {
+      return reject("invalid_payload", `Texture ${name} must be a cell of the atlas`);
+    }
+  }
+
+  return null;
+}
+
+// Validate a texture uploaded by a player: a custom/ name and a PNG data URL
+// The image size is checked by the server once decoded
+export function validateUserTexture(texture: any): IActionRejection | null {
+  if (!texture || typeof texture !== "object") {
+    return reject("invalid_payload", "Missing texture");
+  }
+
+  if (typeof texture.name !== "string" || !USER_TEXTURE_NAME_PATTERN.test(texture.name)) {
+    return reject("invalid_payload", "Texture name must be custom/ followed by lowercase letters, digits, _ and -");
+  }
+
+  if (typeof texture.image !== "string" || !texture.image.startsWith(USER_TEXTURE_IMAGE_PREFIX)) {
+    return reject("invalid_payload", "Texture image must be a PNG data URL");
+  }
+
+  if (texture.image.length > MAX_USER_TEXTURE_SIZE) {
+    return reject("invalid_payload", `Texture image can't be larger than ${MAX_USER_TEXTURE_SIZE / 1024}KB`, 413);
+  }
+
+  return null;
+}
+
+// Pick only the known texture fields
+export function sanitizeUserTexture(texture: IUserTexture): IUserTexture {
+  return {
+    name: texture.name,
+    image: texture.image,
+  };
+}
+
+// Validate terrain generator settings, sizes are in blocks like the build area's
+export function validateTerrainOptions(options: any): IActionRejection | null {
+  if (!options || typeof options !== "object") {
+    return reject("invalid_payload", "Missing terrain settings");
+  }
+
+  if (!Number.isSafeInteger(options.seed)) {
+    return reject("invalid_payload", "Terrain seed must be a whole number");
+  }
+
+  const isSize = (value: unknown, min: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= MAX_BUILD_SIZE;
+  if (
+    !isSize(options.baseHeight, 1) ||
+    !isSize(options.hillHeight, 0) ||
+    !isSize(options.hillSize, 1) ||
+    !isSize(options.dirtDepth, 0) ||
+    (options.waterLevel !== null && !isSize(options.waterLevel, 1))
+  ) {
+    return reject(
+      "invalid_payload",
+      `Terrain heights, hill size and dirt depth must be whole numbers up to ${MAX_BUILD_SIZE}`
+    );
+  }
+
+  if (!isFiniteNumber(options.treeDensity) || options.treeDensity < 0 || options.treeDensity > 1) {
+    return reject("invalid_payload", "Tree density must be between 0 and 1");
+  }
+
+  return null;
+}
+
+// Pick only the known terrain settings
+export function sanitizeTerrainOptions(options: ITerrainOptions): ITerrainOptions {
+  return {
+    seed: options.seed,
+    baseHeight: options.baseHeight,
+    hillHeight: options.hillHeight,
+    hillSize: options.hillSize,
+    dirtDepth: options.dirtDepth,
+    waterLevel: options.waterLevel,
+    treeDensity: options.treeDensity,
+  };
+}
+
+// Number of cells in the cuboid between two cell center positions (inclusive)
+export function regionVolume(from: ICell, to: ICell) {
+  return (
+    (Math.abs(to.x - from.x) + 1) *
+    (Math.abs(to.y - from.y) + 1) *
+    (Math.abs(to.z - from.z) + 1)
+  );
+}
+
+// Validate the shape of a block action posted to the room API
+// This only checks the payload itself and that blocks fit the room's build area,
+// other room state (occupancy) is checked by the caller
+export function validateBlockAction(
+  data: any,
+  blockTypeIds: Set<string>,
+  area: IBuildArea
+): IActionRejection | null {
+  if (!data || typeof data !== "object") {
+    return reject("invalid_payload", "Body must be a JSON object");
+  }
+
+  if (!isValidId(data.sender)) {
+    return reject("invalid_payload", "Sender must be a session id");
+  }
+
+  switch (data.action) {
+    case "add":
+      return validateBlock(data.block, blockTypeIds, area);
+
+    case "remove":
+      if (!isValidId(data.blockId)) {
+        return reject("invalid_payload", "Block id must be a non-empty string");
+      }
+      return null;
+
+    case "add_many":
+      return validateBatch(data.blocks, (block) => validateBlock(block, blockTypeIds, area));
+
+    case "remove_many":
+      return validateBatch(data.blockIds, (blockId) =>
+        isValidId(blockId)
+          ? null
+          : reject("invalid_payload", "Block id must be a non-empty string")
+      );
+
+    case "replace_many": {
+      // Removes and adds in one batch, e.g. moving blocks, both together count against the limit
+      if (!Array.isArray(data.blockIds) || !Array.isArray(data.blocks)) {
+        return reject("invalid_payload", "Block ids and blocks must be arrays");
+      }
+      if (data.blockIds.length + data.blocks.length > MAX_BATCH_SIZE) {
+        return reject("batch_too_large", `Batch can't have more than ${MAX_BATCH_SIZE} items`, 413);
+      }
+
+      return (
+        validateBatch(data.blockIds, (blockId) =>
+          isValidId(blockId)
+            ? null
+            : reject("invalid_payload", "Block id must be a non-empty string")
+        ) ||
+        validateBatch(data.blocks, (block) => validateBlock(block, blockTypeIds, area))
+      );
+    }
+
+    case "fill": {
+      const rejection =
+        validatePosition(data.from, area) ||
+        validatePosition(data.to, area) ||
+        validateAppearance(data, blockTypeIds);
+      if (rejection) return rejection;
+
+      if (regionVolume(data.from, data.to) > MAX_BATCH_SIZE) {
+        return reject("batch_too_large", `Fill can't cover more than ${MAX_BATCH_SIZE} cells`, 413);
+      }
+      return null;
+    }
+
+    case "generate_terrain": {
+      // Terrain fills the columns between from and to, up to the higher of the two
+      const rejection =
+        validatePosition(data.from, area) ||
+        validatePosition(data.to, area) ||
+        validateTerrainOptions(data.terrain);
+      if (rejection) return rejection;
+
+      if (regionVolume({ ...data.from, y: 0 }, { ...data.to, y: 0 }) > MAX_BUILD_SIZE * MAX_BUILD_SIZE) {
+        return reject(
+          "batch_too_large",
+          `Terrain can't cover more than ${MAX_BUILD_SIZE}×${MAX_BUILD_SIZE} columns`,
+          413
+        );
+      }
+      return null;
+    }
+
+    case "clear":
+    case "heartbeat":
+      return null;
+
+    case "update_position":
+      if (
+        !data.position ||
+        !isFiniteNumber(data.position.x) ||
+        !isFiniteNumber(data.position.y) ||
+        !isFiniteNumber(data.position.z)
+      ) {
+        return reject("invalid_payload", "Position must have numeric x, y and z");
+      }
+      return null;
+
+    case "rename":
+      if (
+        typeof data.name !== "string" ||
+        data.name.trim().length === 0 ||
+        data.name.trim().length > MAX_NAME_LENGTH
+      ) {
+        return reject("invalid_payload", `Name must be 1 to ${MAX_NAME_LENGTH} characters`);
+      }
+      return null;
+
+    case "define_block":
+      return validateBlockDefinition(data.definition);
+
+    case "delete_block_definition":
+      if (typeof data.blockTypeId !== "string" || !BLOCK_TYPE_ID_PATTERN.test(data.blockTypeId)) {
+        return reject("invalid_payload", "Block type id must be lowercase letters, digits and underscores");
+      }
+      // Placed blocks of the deleted type are removed, or changed to replaceWith
+      if (data.replaceWith !== undefined && data.replaceWith !== null) {
+        if (typeof data.replaceWith !== "string" || !blockTypeIds.has(data.replaceWith)) {
+          return reject("unknown_block_type", `Unknown block type: ${data.replaceWith}`, 422);
+        }
+        if (data.replaceWith === data.blockTypeId) {
+          return reject("invalid_payload", "Blocks can't be replaced with the deleted block type");
+        }
+      }
+      return null;
+
+    case "chat":
+      if (
+        typeof data.text !== "string" ||
+        data.text.trim().length === 0 ||
+        data.text.trim().length > MAX_CHAT_LENGTH
+      ) {
+        return reject("invalid_payload", `Message must be 1 to ${MAX_CHAT_LENGTH} characters`);
+      }
+      return null;
+
+    case "resize_build_area":
+      // Whether the room's blocks fit the new size is checked by the caller
+      return validateBuildArea(data.buildArea);
+
+    case "upload_texture":
+      return validateUserTexture(data.texture);
+
+    case "subscribe":
+      return validateChunkBox(data.chunks);
+
+    case "set_texture_pack":
+      // null goes back to the atlas that ships with the app
+      if (data.packId !== null && (typeof data.packId !== "string" || !TEXTURE_PACK_ID_PATTERN.test(data.packId))) {
+        return reject("invalid_payload", "Texture pack id must be a pack id or null");
+      }
+      return null;
+
+    default:
+      return reject("invalid_action", "Invalid action");
+  }
+}
+
+// Pick only the known definition fields
+export function sanitizeBlockDefinition(definition: IBlockDefinition): IBlockDefinition {
+  const sanitized: IBlockDefinition = {
+    id: definition.id,
+    name: definition.name.trim(),
+    faces: {
+      top: definition.faces.top,
+      bottom: definition.faces.bottom,
+      front: definition.faces.front,
+      back: definition.faces.back,
+      left: definition.faces.left,
+      right: definition.faces.right,
+    },
+  };
+  if (definition.transparent) sanitized.transparent = true;
+  return sanitized;
+}
+
+// Pick only the known block fields, so extra properties are never stored or broadcast
+export function sanitizeBlock(block: IBlockPosition): IBlockPosition {
+  return {
+    x: block.x,
+    y: block.y,
+    z: block.z,
+    blockType: block.blockType || undefined,
+    color: block.blockType ? undefined : block.color,
+    id: block.id,
+  };
+}
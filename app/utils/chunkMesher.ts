@@ -0,0 +1,212 @@
+import * as THREE from "three";
+import type { IBlockModel } from "./textureLoader";
+import {
+  blockCell,
+  CHUNK_SIZE,
+  chunkKey,
+  chunkOf,
+  IBlockPosition,
+  ICell,
+  VoxelStore,
+} from "./voxelStore";
+
+// The neighbor each side of a block faces, in BoxGeometry side order (see FACE_ORDER)
+const SIDE_NEIGHBORS: ICell[] = [
+  { x: 1, y: 0, z: 0 },
+  { x: -1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: -1, z: 0 },
+  { x: 0, y: 0, z: 1 },
+  { x: 0, y: 0, z: -1 },
+];
+
+// Vertices and indices per side of a BoxGeometry with one segment
+const VERTICES_PER_SIDE = 4;
+const INDICES_PER_SIDE = 6;
+
+// Geometry shared by the models of colored blocks
+const colorBlockGeometry = new THREE.BoxGeometry(1, 1, 1);
+const colorBlockModels: Map<string, IBlockModel> = new Map();
+
+// Get the model of a block drawn in a plain color, one material per color for every block
+export function colorBlockModel(color: string): IBlockModel {
+  let model = colorBlockModels.get(color);
+  if (!model) {
+    const material = new THREE.MeshLambertMaterial({ color });
+    model = { geometry: colorBlockGeometry, materials: Array(SIDE_NEIGHBORS.length).fill(material) };
+    colorBlockModels.set(color, model);
+  }
+  return model;
+}
+
+// Vertex data of the sides drawn with one material
+interface IMaterialBatch {
+  material: THREE.Material;
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  indices: number[];
+}
+
+// Meshes the blocks of a store into one mesh per chunk, drawing only the sides of blocks
+// that aren't covered by an opaque neighbor
+// Changed chunks are marked and re-meshed together on the next update, so a batch of
+// changes costs one re-mesh per chunk it touches
+export class ChunkMesher {
+  // Holds the chunk meshes, add it to the scene
+  readonly group = new THREE.Group();
+  private meshes: Map<string, THREE.Mesh> = new Map();
+  private dirty: Map<string, ICell> = new Map();
+
+  // modelOf gives the model a block is drawn with, its geometry has to be a one-segment BoxGeometry
+  constructor(
+    private store: VoxelStore,
+    private modelOf: (block: IBlockPosition) => IBlockModel
+  ) {}
+
+  // Mark the chunk of a changed cell for re-meshing
+  // Neighboring chunks are marked too when the cell is on their border, their culled sides change
+  markCell(cell: ICell) {
+    const chunk = chunkOf(cell);
+    this.markChunk(chunk);
+
+    SIDE_NEIGHBORS.forEach((offset) => {
+      const neighbor = chunkOf({ x: cell.x + offset.x, y: cell.y + offset.y, z: cell.z + offset.z });
+      if (neighbor.x !== chunk.x || neighbor.y !== chunk.y || neighbor.z !== chunk.z) {
+        this.markChunk(neighbor);
+      }
+    });
+  }
+
+  // Mark the chunks of added or removed blocks for re-meshing
+  markBlocks(blocks: IBlockPosition[]) {
+    blocks.forEach((block) => this.markCell(blockCell(block)));
+  }
+
+  // Mark every chunk for re-meshing, e.g. when block models change
+  markAll() {
+    this.meshes.forEach((_, key) => this.dirty.set(key, this.parseKey(key)));
+    for (const key of this.store.chunkKeys()) {
+      this.dirty.set(key, this.parseKey(key));
+    }
+  }
+
+  // Re-mesh the marked chunks, returns whether any mesh changed
+  update(): boolean {
+    if (this.dirty.size === 0) return false;
+
+    this.dirty.forEach((chunk, key) => this.buildChunk(key, chunk));
+    this.dirty.clear();
+    return true;
+  }
+
+  // Remove every chunk mesh, for when the store is cleared
+  clear() {
+    this.meshes.forEach((mesh) => this.removeMesh(mesh));
+    this.meshes.clear();
+    this.dirty.clear();
+  }
+
+  private markChunk(chunk: ICell) {
+    this.dirty.set(chunkKey(chunk), chunk);
+  }
+
+  private parseKey(key: string): ICell {
+    const [x, y, z] = key.split(",").map(Number);
+    return { x, y, z };
+  }
+
+  private removeMesh(mesh: THREE.Mesh) {
+    this.group.remove(mesh);
+    // The materials are shared with the block models
+    mesh.geometry.dispose();
+  }
+
+  // Build the mesh of a chunk again, or drop it if the chunk has no blocks left
+  private buildChunk(key: string, chunk: ICell) {
+    const origin = { x: chunk.x * CHUNK_SIZE, y: chunk.y * CHUNK_SIZE, z: chunk.z * CHUNK_SIZE };
+    const batches: Map<THREE.Material, IMaterialBatch> = new Map();
+
+    for (const block of this.store.inChunk(chunk)) {
+      const cell = blockCell(block);
+      const { geometry, materials } = this.modelOf(block);
+      const position = geometry.getAttribute("position");
+      const normal = geometry.getAttribute("normal");
+      const uv = geometry.getAttribute("uv");
+      const index = geometry.getIndex()!;
+
+      SIDE_NEIGHBORS.forEach((offset, side) => {
+        // Sides against an opaque block can't be seen, nor the ones between two blocks of the
+        // same see-through type (like the inside of a tree's leaves)
+        const neighbor = this.store.get(cell.x + offset.x, cell.y + offset.y, cell.z + offset.z);
+        if (neighbor && (!this.modelOf(neighbor).transparent || neighbor.blockType === block.blockType)) {
+          return;
+        }
+
+        const material = materials[geometry.groups[side].materialIndex ?? 0];
+        let batch = batches.get(material);
+        if (!batch) {
+          batch = { material, positions: [], normals: [], uvs: [], indices: [] };
+          batches.set(material, batch);
+        }
+
+        // Vertices are placed relative to the chunk's origin, the box is centered on the cell
+        const first = batch.positions.length / 3;
+        for (let vertex = side * VERTICES_PER_SIDE; vertex < (side + 1) * VERTICES_PER_SIDE; vertex++) {
+          batch.positions.push(
+            position.getX(vertex) + cell.x - origin.x + 0.5,
+            position.getY(vertex) + cell.y - origin.y + 0.5,
+            position.getZ(vertex) + cell.z - origin.z + 0.5
+          );
+          batch.normals.push(normal.getX(vertex), normal.getY(vertex), normal.getZ(vertex));
+          batch.uvs.push(uv.getX(vertex), uv.getY(vertex));
+        }
+        for (let i = side * INDICES_PER_SIDE; i < (side + 1) * INDICES_PER_SIDE; i++) {
+          batch.indices.push(index.getX(i) - side * VERTICES_PER_SIDE + first);
+        }
+      });
+    }
+
+    const previous = this.meshes.get(key);
+    if (previous) {
+      this.removeMesh(previous);
+      this.meshes.delete(key);
+    }
+    if (batches.size === 0) return;
+
+    // One geometry for the chunk, with a group per material
+    const batchList = Array.from(batches.values());
+    const vertexCount = batchList.reduce((sum, batch) => sum + batch.positions.length / 3, 0);
+    const indexCount = batchList.reduce((sum, batch) => sum + batch.indices.length, 0);
+    const positions = new Float32Array(vertexCount * 3);
+    const normals = new Float32Array(vertexCount * 3);
+    const uvs = new Float32Array(vertexCount * 2);
+    // A full chunk has more vertices than 16 bit indices can address
+    const indices = vertexCount > 0xffff ? new Uint32Array(indexCount) : new Uint16Array(indexCount);
+
+    const geometry = new THREE.BufferGeometry();
+    let vertexOffset = 0;
+    let indexOffset = 0;
+    batchList.forEach((batch, materialIndex) => {
+      geometry.addGroup(indexOffset, batch.indices.length, materialIndex);
+      positions.set(batch.positions, vertexOffset * 3);
+      normals.set(batch.normals, vertexOffset * 3);
+      uvs.set(batch.uvs, vertexOffset * 2);
+      batch.indices.forEach((i, n) => (indices[indexOffset + n] = i + vertexOffset));
+      vertexOffset += batch.positions.length / 3;
+      indexOffset += batch.indices.length;
+    });
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+    geometry.setAttribute("uv", new THREE.BufferAttribute(uvs, 2));
+    geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+
+    const mesh = new THREE.Mesh(
+      geometry,
+      batchList.map((batch) => batch.material)
+    );
+    mesh.position.set(origin.x, origin.y, origin.z);
+    this.group.add(mesh);
+    this.meshes.set(key, mesh);
+  }
+}
@@ -0,0 +1,99 @@
+import { blockCell, IBlockPosition, VoxelStore } from "./voxelStore";
+
+// One user operation: the blocks it added and the blocks it removed
+export interface IBlockCommand {
+  added: IBlockPosition[];
+  removed: IBlockPosition[];
+}
+
+// The command that undoes a command
+export function invertCommand(command: IBlockCommand): IBlockCommand {
+  return { added: command.removed, removed: command.added };
+}
+
+export function isEmptyCommand(command: IBlockCommand) {
+  return command.added.length === 0 && command.removed.length === 0;
+}
+
+function isSameBlock(a: IBlockPosition, b: IBlockPosition) {
+  return (
+    a.id === b.id &&
+    a.x === b.x &&
+    a.y === b.y &&
+    a.z === b.z &&
+    a.blockType === b.blockType &&
+    a.color === b.color
+  );
+}
+
+// Narrow a command down to the parts that still apply to the current blocks
+// Blocks to remove must still be exactly as we left them, and blocks to add
+// need an empty cell, so cells someone else has changed since are skipped
+// Blocks the store can't tell about (e.g. in chunks that aren't loaded) are kept as they are
+export function resolveCommand(
+  command: IBlockCommand,
+  store: VoxelStore,
+  isUnknown: (block: IBlockPosition) => boolean = () => false
+): IBlockCommand {
+  const removed = command.removed.filter((block) => {
+    if (isUnknown(block)) return true;
+    const current = store.getById(block.id);
+    return current !== undefined && isSameBlock(current, block);
+  });
+
+  // Cells freed by this command can be reused by its own additions
+  const freedIds = new Set(removed.map((block) => block.id));
+  const added = command.added.filter((block) => {
+    if (isUnknown(block)) return true;
+    const cell = blockCell(block);
+    const occupant = store.get(cell.x, cell.y, cell.z);
+    if (occupant && !freedIds.has(occupant.id)) return false;
+
+    const existing = store.getById(block.id);
+    return !existing || freedIds.has(existing.id);
+  });
+
+  return { added, removed };
+}
+
+// Undo and redo stacks of the local user's own commands
+export class CommandHistory {
+  private undoStack: IBlockCommand[] = [];
+  private redoStack: IBlockCommand[] = [];
+
+  constructor(private limit = 100) {}
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  // Record a new command, this starts a new branch so redo is no longer possible
+  record(command: IBlockCommand) {
+    if (isEmptyCommand(command)) return;
+    this.pushUndo(command);
+    this.redoStack = [];
+  }
+
+  takeUndo(): IBlockCommand | undefined {
+    return this.undoStack.pop();
+  }
+
+  takeRedo(): IBlockCommand | undefined {
+    return this.redoStack.pop();
+  }
+
+  pushUndo(command: IBlockCommand) {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+  }
+
+  pushRedo(command: IBlockCommand) {
+    this.redoStack.push(command);
+  }
+}
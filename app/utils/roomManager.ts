@@ -0,0 +1,409 @@
+import { v4 as uuidv4 } from "uuid";
+import { IBlockDefinition, IUserTexture } from "./blockDefinitions";
+import { createRoomStorage, IRoomMeta, IRoomStorage } from "./roomStorage";
+import { createTexturePackStorage, ITexturePackStorage } from "./texturePackStorage";
+import { DEFAULT_BUILD_AREA, IBuildArea, MAX_NAME_LENGTH } from "./blockValidation";
+import { VoxelStore } from "./voxelStore";
+
+export interface IPlayerPosition {
+  x: number;
+  y: number;
+  z: number;
+  sessionId: string; // Issued by the server on connect, identifies the player
+  name: string; // Display name, unique within the room
+  lastSeen: number; // Last time we heard from the player (connect, actions, heartbeats)
+  chunks: Set<string>; // Keys of the chunks the player's client gets blocks and block events for
+}
+
+// A broadcast event kept in the room's operation log for replay
+export interface IRoomEvent {
+  seq: number;
+  message: string;
+  chunks?: Set<string>; // Keys of the chunks a block event touches, it only goes to players subscribed to one
+}
+
+// A chat message as it is kept in the room and sent to clients
+export interface IChatMessage {
+  id: string;
+  sessionId: string; // Session of the player who sent it
+  name: string; // The sender's display name at the time
+  text: string;
+  timestamp: number;
+}
+
+export interface IRoom {
+  meta: IRoomMeta; // Name and lobby details, persisted with the room
+  blocks: VoxelStore;
+  blockDefinitions: Map<string, IBlockDefinition>; // Custom block types made in this room, by id
+  textures: Map<string, IUserTexture>; // Textures uploaded to this room, by name
+  clients: Map<ReadableStreamDefaultController, string>; // Connected streams and their session ids
+  players: Map<string, IPlayerPosition>; // Track connected players by session id
+  epoch: string; // Changes whenever the room is reloaded, so old event ids are never reused
+  seq: number; // Sequence number of the last broadcast event
+  log: IRoomEvent[]; // Most recent broadcast events, oldest first
+  logSize: number; // Characters in the messages of the log
+  chat: IChatMessage[]; // Most recent chat messages, oldest first
+}
+
+// How many broadcast events each room keeps for Last-Event-ID replay
+const OPERATION_LOG_SIZE = 1000;
+// Most characters of messages the log keeps, batch events can carry tens of thousands of blocks
+const OPERATION_LOG_MAX_CHARS = 16 * 1024 * 1024;
+
+// How many chat messages each room keeps for players that join later
+const CHAT_HISTORY_SIZE = 50;
+
+// How often idle connections get a keepalive comment and stale players are checked
+const KEEPALIVE_INTERVAL = 15000;
+// Players we haven't heard from for this long are evicted from the room
+// Clients send a heartbeat well within this, so only dead connections hit it
+const PLAYER_TIMEOUT = 60000;
+
+interface IRoomRegistry {
+  storage: IRoomStorage; // Durable storage, blocks are written through on every change
+  packStorage: ITexturePackStorage; // Uploaded texture packs, rooms refer to them by id
+  rooms: Map<string, IRoom>; // Live rooms with their connected clients, loaded from storage
+  roomLoads: Map<string, Promise<IRoom>>; // Rooms being loaded, so concurrent requests share one load
+  heartbeatTimer: ReturnType<typeof setInterval> | null; // Keepalives and stale player eviction
+}
+
+// Route handlers can be bundled separately and dev reloads re-evaluate modules,
+// so the registry lives on globalThis to be shared by every route in the process
+const globalForRooms = globalThis as typeof globalThis & {
+  roomRegistry?: IRoomRegistry;
+};
+if (!globalForRooms.roomRegistry) {
+  globalForRooms.roomRegistry = {
+    storage: createRoomStorage(),
+    packStorage: createTexturePackStorage(),
+    rooms: new Map(),
+    roomLoads: new Map(),
+    heartbeatTimer: null,
+  };
+}
+const registry = globalForRooms.roomRegistry;
+
+export const storage = registry.storage;
+export const packStorage = registry.packStorage;
+const rooms = registry.rooms;
+const roomLoads = registry.roomLoads;
+
+// Start the heartbeat once the first client connects
+export function startHeartbeat() {
+  if (registry.heartbeatTimer) return;
+  
+  const heartbeatTimer = setInterval(() => {
+    const now = Date.now();
+    
+    rooms.forEach((room, roomId) => {
+      // SSE comments are ignored by EventSource but keep proxies from cutting idle streams
+      sendToClients(room, ": keepalive\n\n");
+      
+      // Abort events don't always fire (proxies, sleeping laptops), so evict players that went silent
+      room.players.forEach((player) => {
+        if (now - player.lastSeen > PLAYER_TIMEOUT) {
+          console.log(`Evicting stale player ${player.name} from room ${roomId}`);
+          removePlayer(roomId, room, player.sessionId);
+        }
+      });
+    });
+  }, KEEPALIVE_INTERVAL);
+  
+  // Don't keep the process alive just for heartbeats
+  if (typeof heartbeatTimer === "object" && "unref" in heartbeatTimer) {
+    heartbeatTimer.unref();
+  }
+  registry.heartbeatTimer = heartbeatTimer;
+}
+
+// The player fields other clients get to see
+export function toPublicPlayer(player: IPlayerPosition) {
+  return {
+    x: player.x,
+    y: player.y,
+    z: player.z,
+    sessionId: player.sessionId,
+    name: player.name
+  };
+}
+
+// Remove a player and close any connections still open for their session
+export function removePlayer(roomId: string, room: IRoom, sessionId: string) {
+  room.clients.forEach((clientSessionId, controller) => {
+    if (clientSessionId !== sessionId) return;
+    room.clients.delete(controller);
+    try {
+      controller.close();
+    } catch {
+      // Already closed
+    }
+  });
+  
+  if (!room.players.delete(sessionId)) return;
+  
+  console.log(`Player left room ${roomId}, ${room.players.size} players remaining`);
+  
+  // Notify other clients about player leaving
+  broadcastToRoom(roomId, {
+    type: "player_left",
+    sessionId,
+    playerCount: room.players.size
+  });
+}
+
+// Helper to get or create a room
+export async function getOrCreateRoom(roomId: string): Promise<IRoom> {
+  const existing = rooms.get(roomId);
+  if (existing) return existing;
+
+  let load = roomLoads.get(roomId);
+  if (!load) {
+    load = Promise.all([
+      storage.loadMeta(roomId),
+      storage.loadBlocks(roomId),
+      storage.loadBlockDefinitions(roomId),
+      storage.loadTextures(roomId)
+    ]).then(([meta, blocks, blockDefinitions, textures]) => {
+      const now = Date.now();
+      const room: IRoom = {
+        // Rooms joined by link before anyone named them are named after their id
+        meta: meta || { name: roomId, createdAt: now, lastActivity: now, blockCount: blocks.length },
+        blocks: new VoxelStore(blocks),
+        blockDefinitions: new Map(
+          blockDefinitions.map((definition) => [definition.id, definition])
+        ),
+        textures: new Map(textures.map((texture) => [texture.name, texture])),
+        clients: new Map(),
+        players: new Map(),
+        epoch: Date.now().toString(36),
+        seq: 0,
+        log: [],
+        logSize: 0,
+        chat: []
+      };
+      rooms.set(roomId, room);
+      roomLoads.delete(roomId);
+      return room;
+    }, (error) => {
+      // A failed load isn't kept, the next request tries again
+      roomLoads.delete(roomId);
+      throw error;
+    });
+    roomLoads.set(roomId, load);
+  }
+  return load;
+}
+
+// Make a display name unique in the room by adding a number, e.g. "Builder (2)"
+export function uniqueDisplayName(room: IRoom, name: string, sessionId?: string) {
+  const base = name.trim().substring(0, MAX_NAME_LENGTH) || "Anonymous";
+  const taken = new Set(
+    Array.from(room.players.values())
+      .filter((player) => player.sessionId !== sessionId)
+      .map((player) => player.name.toLowerCase())
+  );
+  
+  let candidate = base;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})`;
+  }
+  return candidate;
+}
+
+// Add a chat message to the room's bounded history
+export function addChatMessage(room: IRoom, player: IPlayerPosition, text: string): IChatMessage {
+  const message: IChatMessage = {
+    id: uuidv4(),
+    sessionId: player.sessionId,
+    name: player.name,
+    text,
+    timestamp: Date.now()
+  };
+  
+  room.chat.push(message);
+  if (room.chat.length > CHAT_HISTORY_SIZE) {
+    room.chat.splice(0, room.chat.length - CHAT_HISTORY_SIZE);
+  }
+  return message;
+}
+
+// Format an SSE frame, with an id when the event is part of the room's sequence
+export function formatEvent(room: IRoom, data: any, seq?: number) {
+  const id = seq !== undefined ? `id: ${room.epoch}:${seq}\n` : "";
+  return `${id}data: ${JSON.stringify(data)}\n\n`;
+}
+
+// Whether a player gets an event, block events only go to players subscribed to a chunk they touch
+function receivesEvent(player: IPlayerPosition | undefined, chunks?: Set<string>) {
+  if (!chunks) return true;
+  if (!player) return false;
+
+  for (const chunk of chunks) {
+    if (player.chunks.has(chunk)) return true;
+  }
+  return false;
+}
+
+// Find the events a reconnecting player missed since lastEventId
+// Block events of chunks the player isn't subscribed to are left out
+// Returns null when they can't be replayed and the client needs a fresh init
+export function getMissedEvents(
+  room: IRoom,
+  player: IPlayerPosition,
+  lastEventId: string | null
+): IRoomEvent[] | null {
+  if (!lastEventId) return null;
+
+  const [epoch, seqPart] = lastEventId.split(":");
+  const seq = Number(seqPart);
+  if (epoch !== room.epoch || !Number.isInteger(seq) || seq < 0 || seq > room.seq) {
+    return null;
+  }
+
+  // The log has been trimmed past the client's last event
+  const oldestSeq = room.log.length > 0 ? room.log[0].seq : room.seq + 1;
+  if (seq + 1 < oldestSeq) return null;
+
+  return room.log.filter((event) => event.seq > seq && receivesEvent(player, event.chunks));
+}
+
+// Broadcast updates to all clients in a room
+// Block events pass the chunks they touch, so they only go to the players subscribed to them
+export function broadcastToRoom(roomId: string, data: any, chunks?: Set<string>) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  
+  console.log(`Broadcasting to ${room.clients.size} clients in room ${roomId}: ${JSON.stringify(data).substring(0, 100)}...`);
+  
+  // Every room event gets the next sequence number and goes into the log
+  room.seq++;
+  const message = formatEvent(room, data, room.seq);
+  room.log.push({ seq: room.seq, message, chunks });
+  room.logSize += message.length;
+  
+  // Drop the oldest events past either limit, clients that missed them get a fresh init
+  let dropped = 0;
+  while (
+    dropped < room.log.length &&
+    (room.log.length - dropped > OPERATION_LOG_SIZE || room.logSize > OPERATION_LOG_MAX_CHARS)
+  ) {
+    room.logSize -= room.log[dropped].message.length;
+    dropped++;
+  }
+  room.log.splice(0, dropped);
+  
+  sendToClients(room, message, chunks);
+}
+
+// Broadcast an event that is only current for a moment (like player movement) to all clients
+// in a room, outside the room's sequence: it isn't replayed, so it never pushes events out of the log
+export function broadcastEphemeral(roomId: string, data: any) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  
+  sendToClients(room, formatEvent(room, data));
+}
+
+// Send an event to one player's connections only, outside the room's sequence
+export function sendToPlayer(room: IRoom, sessionId: string, data: any) {
+  const encoded = new TextEncoder().encode(formatEvent(room, data));
+  
+  room.clients.forEach((clientSessionId, controller) => {
+    if (clientSessionId !== sessionId) return;
+    try {
+      controller.enqueue(encoded);
+    } catch (error) {
+      console.error("Error sending message to client:", error);
+      room.clients.delete(controller);
+    }
+  });
+}
+
+// Write a raw SSE frame to every client in a room, or to those subscribed to one of chunks
+function sendToClients(room: IRoom, message: string, chunks?: Set<string>) {
+  const encoded = new TextEncoder().encode(message);
+  
+  room.clients.forEach((sessionId, controller) => {
+    if (!receivesEvent(room.players.get(sessionId), chunks)) return;
+    try {
+      controller.enqueue(encoded);
+    } catch (error) {
+      console.error("Error sending message to client:", error);
+      // Remove broken connections
+      room.clients.delete(controller);
+    }
+  });
+}
+
+// Record activity in a room and persist its details for the lobby
+// Failing to save them doesn't fail the change that caused it, the lobby catches up on the next one
+export function touchRoom(roomId: string, room: IRoom) {
+  room.meta.lastActivity = Date.now();
+  room.meta.blockCount = room.blocks.size;
+  return storage.saveMeta(roomId, room.meta).catch((error) => {
+    console.error(`Error saving the details of room ${roomId}:`, error);
+  });
+}
+
+// The size of a room's plot
+export function roomBuildArea(room: IRoom): IBuildArea {
+  return room.meta.buildArea || DEFAULT_BUILD_AREA;
+}
+
+// Create a new, empty room with a display name and the size of its plot
+export async function createRoom(name: string, buildArea: IBuildArea = DEFAULT_BUILD_AREA) {
+  // Short ids like the ones the editor generates, retried on the rare collision
+  let roomId = uuidv4().substring(0, 8);
+  while (rooms.has(roomId) || (await storage.loadMeta(roomId))) {
+    roomId = uuidv4().substring(0, 8);
+  }
+  
+  const room = await getOrCreateRoom(roomId);
+  room.meta.name = name;
+  room.meta.buildArea = buildArea;
+  await touchRoom(roomId, room);
+  return { roomId, room };
+}
+
+// A room as listed in the lobby
+export interface IRoomSummary {
+  id: string;
+  name: string;
+  blockCount: number;
+  playerCount: number;
+  lastActivity: number;
+  buildArea: IBuildArea;
+}
+
+// List stored and live rooms, most recently active first
+export async function listRooms(): Promise<IRoomSummary[]> {
+  const summaries: Map<string, IRoomSummary> = new Map();
+  
+  (await storage.listRooms()).forEach(({ id, meta }) => {
+    summaries.set(id, {
+      id,
+      name: meta.name,
+      blockCount: meta.blockCount,
+      playerCount: 0,
+      lastActivity: meta.lastActivity,
+      buildArea: meta.buildArea || DEFAULT_BUILD_AREA
+    });
+  });
+  
+  // Live rooms have the freshest numbers
+  rooms.forEach((room, id) => {
+    if (room.players.size === 0 && !summaries.has(id)) return;
+    summaries.set(id, {
+      id,
+      name: room.meta.name,
+      blockCount: room.blocks.size,
+      playerCount: room.players.size,
+      lastActivity: room.meta.lastActivity,
+      buildArea: roomBuildArea(room)
+    });
+  });
+  
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.lastActivity - a.lastActivity
+  );
+}
@@ -0,0 +1,443 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { IBlockDefinition, IUserTexture } from "./blockDefinitions";
+import type { IBuildArea } from "./blockValidation";
+import { IBlockPosition } from "./voxelStore";
+
+// Room details shown in the lobby
+export interface IRoomMeta {
+  name: string;
+  createdAt: number;
+  lastActivity: number;
+  blockCount: number;
+  texturePack?: string | null; // Texture pack everyone in the room sees, the app's own atlas when unset
+  buildArea?: IBuildArea; // Size of the plot, DEFAULT_BUILD_AREA for rooms made before it could be picked
+}
+
+// Storage adapter used by the room API to persist blocks between restarts
+export interface IRoomStorage {
+  loadMeta(roomId: string): Promise<IRoomMeta | null>;
+  saveMeta(roomId: string, meta: IRoomMeta): Promise<void>;
+  listRooms(): Promise<{ id: string; meta: IRoomMeta }[]>;
+  loadBlocks(roomId: string): Promise<IBlockPosition[]>;
+  addBlocks(roomId: string, blocks: IBlockPosition[]): Promise<void>;
+  removeBlocks(roomId: string, blockIds: string[]): Promise<void>;
+  replaceBlocks(roomId: string, blockIds: string[], blocks: IBlockPosition[]): Promise<void>; // Both in one write
+  clearBlocks(roomId: string): Promise<void>;
+  loadBlockDefinitions(roomId: string): Promise<IBlockDefinition[]>;
+  saveBlockDefinition(roomId: string, definition: IBlockDefinition): Promise<void>;
+  removeBlockDefinition(roomId: string, blockTypeId: string): Promise<void>;
+  loadTextures(roomId: string): Promise<IUserTexture[]>;
+  saveTexture(roomId: string, texture: IUserTexture): Promise<void>;
+}
+
+// Replace the definition with the same id, or add it
+function upsertDefinition(definitions: IBlockDefinition[], definition: IBlockDefinition) {
+  const index = definitions.findIndex((existing) => existing.id === definition.id);
+  if (index >= 0) {
+    definitions[index] = definition;
+  } else {
+    definitions.push(definition);
+  }
+}
+
+// Replace the texture with the same name, or add it
+function upsertTexture(textures: IUserTexture[], texture: IUserTexture) {
+  const index = textures.findIndex((existing) => existing.name === texture.name);
+  if (index >= 0) {
+    textures[index] = texture;
+  } else {
+    textures.push(texture);
+  }
+}
+
+// Keeps rooms in process memory only (used for tests and ROOM_STORAGE=memory)
+export class MemoryRoomStorage implements IRoomStorage {
+  private rooms: Map<string, IBlockPosition[]> = new Map();
+  private metas: Map<string, IRoomMeta> = new Map();
+  private definitions: Map<string, IBlockDefinition[]> = new Map();
+  private textures: Map<string, IUserTexture[]> = new Map();
+
+  async loadMeta(roomId: string): Promise<IRoomMeta | null> {
+    const meta = this.metas.get(roomId);
+    return meta ? { ...meta } : null;
+  }
+
+  async saveMeta(roomId: string, meta: IRoomMeta): Promise<void> {
+    this.metas.set(roomId, { ...meta });
+  }
+
+  async listRooms(): Promise<{ id: string; meta: IRoomMeta }[]> {
+    return Array.from(this.metas.entries()).map(([id, meta]) => ({
+      id,
+      meta: { ...meta },
+    }));
+  }
+
+  async loadBlocks(roomId: string): Promise<IBlockPosition[]> {
+    return [...(this.rooms.get(roomId) || [])];
+  }
+
+  async addBlocks(roomId: string, blocks: IBlockPosition[]): Promise<void> {
+    this.rooms.set(roomId, [...(this.rooms.get(roomId) || []), ...blocks]);
+  }
+
+  async removeBlocks(roomId: string, blockIds: string[]): Promise<void> {
+    const removed = new Set(blockIds);
+    const blocks = this.rooms.get(roomId) || [];
+    this.rooms.set(
+      roomId,
+      blocks.filter((block) => !removed.has(block.id))
+    );
+  }
+
+  async replaceBlocks(roomId: string, blockIds: string[], blocks: IBlockPosition[]): Promise<void> {
+    await this.removeBlocks(roomId, blockIds);
+    await this.addBlocks(roomId, blocks);
+  }
+
+  async clearBlocks(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+
+  async loadBlockDefinitions(roomId: string): Promise<IBlockDefinition[]> {
+    return [...(this.definitions.get(roomId) || [])];
+  }
+
+  async saveBlockDefinition(roomId: string, definition: IBlockDefinition): Promise<void> {
+    const definitions = [...(this.definitions.get(roomId) || [])];
+    upsertDefinition(definitions, definition);
+    this.definitions.set(roomId, definitions);
+  }
+
+  async removeBlockDefinition(roomId: string, blockTypeId: string): Promise<void> {
+    const definitions = this.definitions.get(roomId) || [];
+    this.definitions.set(
+      roomId,
+      definitions.filter((definition) => definition.id !== blockTypeId)
+    );
+  }
+
+  async loadTextures(roomId: string): Promise<IUserTexture[]> {
+    return [...(this.textures.get(roomId) || [])];
+  }
+
+  async saveTexture(roomId: string, texture: IUserTexture): Promise<void> {
+    const textures = [...(this.textures.get(roomId) || [])];
+    upsertTexture(textures, texture);
+    this.textures.set(roomId, textures);
+  }
+}
+
+// Everything stored for a room besides its details
+interface IStoredRoom {
+  blocks: IBlockPosition[];
+  blockDefinitions: IBlockDefinition[];
+  textures: IUserTexture[];
+}
+
+// Files of a room next to its blocks (<room>.json), written only when their part changes
+// so placing a block never rewrites the uploaded textures
+const DEFINITIONS_SUFFIX = ".definitions.json";
+const TEXTURES_SUFFIX = ".textures.json";
+const META_SUFFIX = ".meta.json";
+
+// Stores each room as JSON files in a directory on disk: its blocks in <room>.json, custom block
+// definitions and uploaded textures in files of their own, and its details in a small
+// <room>.meta.json so listing rooms stays cheap
+export class FileRoomStorage implements IRoomStorage {
+  // Loaded rooms, kept as promises so concurrent loads share one read
+  private cache: Map<string, Promise<IStoredRoom>> = new Map();
+  // Pending write per file, so writes to the same file never interleave
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  // Writes that haven't started yet, later changes to the same file wait for them instead of
+  // queueing another write: they write whatever the data is when they start
+  private queuedWrites: Map<string, Promise<void>> = new Map();
+  // Latest details of each room, for queued writes of its meta file
+  private metas: Map<string, IRoomMeta> = new Map();
+
+  constructor(private directory: string) {}
+
+  private filePath(roomId: string, suffix = ".json") {
+    return path.join(this.directory, `${encodeURIComponent(roomId)}${suffix}`);
+  }
+
+  private metaPath(roomId: string) {
+    return this.filePath(roomId, META_SUFFIX);
+  }
+
+  // Write JSON to a temp file and rename it over the old one
+  // Writes to a target run one after another, and changes made while one is waiting share it,
+  // so a burst of changes costs one write after the one in progress
+  private writeJson(target: string, getData: () => unknown): Promise<void> {
+    const queued = this.queuedWrites.get(target);
+    if (queued) return queued;
+
+    const previous = this.writeQueues.get(target) || Promise.resolve();
+    const next = previous.then(async () => {
+      // Changes from here on need another write
+      this.queuedWrites.delete(target);
+
+      const temp = `${target}.tmp`;
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(temp, JSON.stringify(getData()));
+      await fs.rename(temp, target);
+    });
+    this.queuedWrites.set(target, next);
+
+    // Keep the queue alive even if one write fails
+    this.writeQueues.set(
+      target,
+      next.catch((error) => {
+        console.error(`Error writing ${target} to disk:`, error);
+      })
+    );
+    return next;
+  }
+
+  // Write a change to the cached room, taking it back when the write fails
+  // so the cache never holds what the disk doesn't
+  private async commit(write: Promise<void>, rollback: () => void): Promise<void> {
+    try {
+      await write;
+    } catch (error) {
+      rollback();
+      throw error;
+    }
+  }
+
+  async loadMeta(roomId: string): Promise<IRoomMeta | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.metaPath(roomId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error reading room ${roomId} details from disk:`, error);
+      }
+      return null;
+    }
+  }
+
+  saveMeta(roomId: string, meta: IRoomMeta): Promise<void> {
+    this.metas.set(roomId, { ...meta });
+    return this.writeJson(this.metaPath(roomId), () => this.metas.get(roomId));
+  }
+
+  async listRooms(): Promise<{ id: string; meta: IRoomMeta }[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    // New rooms only have details until their first block, old ones only have blocks
+    const roomIds = new Set<string>();
+    files.forEach((file) => {
+      if (file.endsWith(META_SUFFIX)) {
+        roomIds.add(decodeURIComponent(file.slice(0, -META_SUFFIX.length)));
+      } else if (
+        file.endsWith(".json") &&
+        !file.endsWith(DEFINITIONS_SUFFIX) &&
+        !file.endsWith(TEXTURES_SUFFIX)
+      ) {
+        roomIds.add(decodeURIComponent(file.slice(0, -".json".length)));
+      }
+    });
+
+    const rooms = await Promise.all(
+      Array.from(roomIds).map(async (id) => {
+        let meta = await this.loadMeta(id);
+
+        // Rooms saved before room details existed, count their blocks once
+        if (!meta) {
+          try {
+            const stat = await fs.stat(this.filePath(id));
+            const { blocks } = await this.readRoom(id);
+            meta = {
+              name: id,
+              createdAt: stat.birthtimeMs || stat.mtimeMs,
+              lastActivity: stat.mtimeMs,
+              blockCount: blocks.length,
+            };
+          } catch {
+            // Rooms that can't be read are left out of the list
+            return null;
+          }
+        }
+
+        return { id, meta };
+      })
+    );
+    return rooms.filter((room): room is { id: string; meta: IRoomMeta } => room !== null);
+  }
+
+  // Read a JSON file of a room, null when it doesn't exist
+  // Any other failure (like a corrupt file) is thrown, an empty room would be written over the file
+  private async readJson(roomId: string, suffix: string): Promise<any> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(roomId, suffix), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+
+      console.error(`Error reading room ${roomId} from disk:`, error);
+      throw error;
+    }
+  }
+
+  private readRoom(roomId: string): Promise<IStoredRoom> {
+    let loaded = this.cache.get(roomId);
+    if (!loaded) {
+      loaded = Promise.all([
+        this.readJson(roomId, ".json"),
+        this.readJson(roomId, DEFINITIONS_SUFFIX),
+        this.readJson(roomId, TEXTURES_SUFFIX),
+      ])
+        .then(async ([data, definitions, textures]) => {
+          const room: IStoredRoom = {
+            blocks: data?.blocks || [],
+            blockDefinitions: definitions || data?.blockDefinitions || [],
+            textures: textures || data?.textures || [],
+          };
+
+          // Rooms saved before definitions and textures had files of their own,
+          // move them out before the next block write leaves them behind
+          if (!definitions && data?.blockDefinitions?.length) {
+            await this.writeJson(this.filePath(roomId, DEFINITIONS_SUFFIX), () => room.blockDefinitions);
+          }
+          if (!textures && data?.textures?.length) {
+            await this.writeJson(this.filePath(roomId, TEXTURES_SUFFIX), () => room.textures);
+          }
+          return room;
+        })
+        .catch((error) => {
+          // A failed load isn't cached, the next request tries again
+          this.cache.delete(roomId);
+          throw error;
+        });
+      this.cache.set(roomId, loaded);
+    }
+    return loaded;
+  }
+
+  private writeBlocks(roomId: string, room: IStoredRoom): Promise<void> {
+    return this.writeJson(this.filePath(roomId), () => ({ blocks: room.blocks }));
+  }
+
+  private writeDefinitions(roomId: string, room: IStoredRoom): Promise<void> {
+    return this.writeJson(this.filePath(roomId, DEFINITIONS_SUFFIX), () => room.blockDefinitions);
+  }
+
+  private writeTextures(roomId: string, room: IStoredRoom): Promise<void> {
+    return this.writeJson(this.filePath(roomId, TEXTURES_SUFFIX), () => room.textures);
+  }
+
+  async loadBlocks(roomId: string): Promise<IBlockPosition[]> {
+    return [...(await this.readRoom(roomId)).blocks];
+  }
+
+  async addBlocks(roomId: string, blocks: IBlockPosition[]): Promise<void> {
+    const room = await this.readRoom(roomId);
+    const added = new Set(blocks);
+    room.blocks.push(...blocks);
+
+    await this.commit(this.writeBlocks(roomId, room), () => {
+      room.blocks = room.blocks.filter((block) => !added.has(block));
+    });
+  }
+
+  async removeBlocks(roomId: string, blockIds: string[]): Promise<void> {
+    const removedIds = new Set(blockIds);
+    const room = await this.readRoom(roomId);
+    const removed = room.blocks.filter((block) => removedIds.has(block.id));
+    if (removed.length === 0) return;
+    room.blocks = room.blocks.filter((block) => !removedIds.has(block.id));
+
+    await this.commit(this.writeBlocks(roomId, room), () => {
+      room.blocks.push(...removed);
+    });
+  }
+
+  async replaceBlocks(roomId: string, blockIds: string[], blocks: IBlockPosition[]): Promise<void> {
+    const removedIds = new Set(blockIds);
+    const room = await this.readRoom(roomId);
+    const removed = room.blocks.filter((block) => removedIds.has(block.id));
+    const added = new Set(blocks);
+    room.blocks = room.blocks.filter((block) => !removedIds.has(block.id));
+    room.blocks.push(...blocks);
+
+    await this.commit(this.writeBlocks(roomId, room), () => {
+      room.blocks = room.blocks.filter((block) => !added.has(block));
+      room.blocks.push(...removed);
+    });
+  }
+
+  async clearBlocks(roomId: string): Promise<void> {
+    const room = await this.readRoom(roomId);
+    const cleared = room.blocks;
+    room.blocks = [];
+
+    await this.commit(this.writeBlocks(roomId, room), () => {
+      room.blocks.push(...cleared);
+    });
+  }
+
+  async loadBlockDefinitions(roomId: string): Promise<IBlockDefinition[]> {
+    return [...(await this.readRoom(roomId)).blockDefinitions];
+  }
+
+  async saveBlockDefinition(roomId: string, definition: IBlockDefinition): Promise<void> {
+    const room = await this.readRoom(roomId);
+    const previous = room.blockDefinitions.find((existing) => existing.id === definition.id);
+    upsertDefinition(room.blockDefinitions, definition);
+
+    await this.commit(this.writeDefinitions(roomId, room), () => {
+      if (previous) {
+        upsertDefinition(room.blockDefinitions, previous);
+      } else {
+        room.blockDefinitions = room.blockDefinitions.filter((existing) => existing !== definition);
+      }
+    });
+  }
+
+  async removeBlockDefinition(roomId: string, blockTypeId: string): Promise<void> {
+    const room = await this.readRoom(roomId);
+    const previous = room.blockDefinitions.find((definition) => definition.id === blockTypeId);
+    if (!previous) return;
+    room.blockDefinitions = room.blockDefinitions.filter((definition) => definition !== previous);
+
+    await this.commit(this.writeDefinitions(roomId, room), () => {
+      upsertDefinition(room.blockDefinitions, previous);
+    });
+  }
+
+  async loadTextures(roomId: string): Promise<IUserTexture[]> {
+    return [...(await this.readRoom(roomId)).textures];
+  }
+
+  async saveTexture(roomId: string, texture: IUserTexture): Promise<void> {
+    const room = await this.readRoom(roomId);
+    const previous = room.textures.find((existing) => existing.name === texture.name);
+    upsertTexture(room.textures, texture);
+
+    await this.commit(this.writeTextures(roomId, room), () => {
+      if (previous) {
+        upsertTexture(room.textures, previous);
+      } else {
+        room.textures = room.textures.filter((existing) => existing !== texture);
+      }
+    });
+  }
+}
+
+// Pick the storage adapter from the environment
+// ROOM_STORAGE=memory keeps everything in process memory,
+// otherwise rooms are written to ROOM_STORAGE_DIR (default ./.data/rooms)
+export function createRoomStorage(): IRoomStorage {
+  if (process.env.ROOM_STORAGE === "memory") {
+    return new MemoryRoomStorage();
+  }
+
+  const directory =
+    process.env.ROOM_STORAGE_DIR || path.join(process.cwd(), ".data", "rooms");
+  return new FileRoomStorage(directory);
+}
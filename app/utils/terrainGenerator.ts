@@ -0,0 +1,181 @@
+import { BLOCK_TYPES } from "./blockDefinitions";
+import { cellToPosition, ICell } from "./voxelStore";
+
+// Settings of a generated terrain, the same settings always give the same terrain
+export interface ITerrainOptions {
+  seed: number; // Any integer, picks the landscape
+  baseHeight: number; // Average height of the surface in blocks
+  hillHeight: number; // How far hills rise above and valleys sink below the average
+  hillSize: number; // Rough width of a hill in blocks
+  dirtDepth: number; // Blocks of dirt between the grass and the stone
+  waterLevel: number | null; // Cells below this height are water where the surface is lower, null for no water
+  treeDensity: number; // Chance (0-1) of a tree in each patch of grass
+}
+
+export const DEFAULT_TERRAIN_OPTIONS: ITerrainOptions = {
+  seed: 1,
+  baseHeight: 4,
+  hillHeight: 3,
+  hillSize: 24,
+  dirtDepth: 3,
+  waterLevel: null,
+  treeDensity: 0.3,
+};
+
+// A generated block, positioned like stored blocks (cell centers) but without an id yet
+export interface ITerrainBlock {
+  x: number;
+  y: number;
+  z: number;
+  blockType: string;
+}
+
+// Layers of noise added together, each one half as tall and twice as busy as the one before
+const NOISE_OCTAVES = 4;
+
+// Fractal noise rarely strays far from 0, it is stretched so the highest hills reach their height
+const NOISE_SPREAD = 2;
+
+// Trees are spread over square patches of columns, at most one per patch
+const TREE_PATCH_SIZE = 6;
+// Cells of leaves around the trunk, and blocks the crown reaches above the trunk
+const CROWN_RADIUS = 2;
+const CROWN_TOP = 1;
+
+// Hash integer coordinates and a seed into [0, 1)
+function hash(seed: number, x: number, z: number) {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(z, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+// Smoothly interpolated random values on an integer lattice, in [0, 1)
+function valueNoise(seed: number, x: number, z: number) {
+  const x0 = Math.floor(x);
+  const z0 = Math.floor(z);
+  const fade = (t: number) => t * t * (3 - 2 * t);
+  const tx = fade(x - x0);
+  const tz = fade(z - z0);
+
+  const top = hash(seed, x0, z0) * (1 - tx) + hash(seed, x0 + 1, z0) * tx;
+  const bottom = hash(seed, x0, z0 + 1) * (1 - tx) + hash(seed, x0 + 1, z0 + 1) * tx;
+  return top * (1 - tz) + bottom * tz;
+}
+
+// Octaves of value noise, in [-1, 1)
+function fractalNoise(seed: number, x: number, z: number) {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let range = 0;
+
+  for (let octave = 0; octave < NOISE_OCTAVES; octave++) {
+    total += valueNoise(seed + octave, x * frequency, z * frequency) * amplitude;
+    range += amplitude;
+    amplitude /= 2;
+    frequency *= 2;
+  }
+
+  return (total / range) * 2 - 1;
+}
+
+// Height of the surface of a column: the number of ground blocks in it, at least one
+function surfaceHeight(options: ITerrainOptions, x: number, z: number) {
+  const noise = Math.max(
+    -1,
+    Math.min(1, fractalNoise(options.seed, x / options.hillSize, z / options.hillSize) * NOISE_SPREAD)
+  );
+  return Math.max(1, Math.round(options.baseHeight + noise * options.hillHeight));
+}
+
+// Generate the terrain of the columns in bounds, from bounds.min.y up to bounds.max.y
+// Grass on top, then dirt, then stone, with sand on the shores and under water
+// Returns null as soon as there would be more than limit blocks
+export function generateTerrain(
+  options: ITerrainOptions,
+  bounds: { min: ICell; max: ICell },
+  limit = Infinity
+): ITerrainBlock[] | null {
+  const { min, max } = bounds;
+  const blocks: Map<string, ITerrainBlock> = new Map();
+  const waterLevel = options.waterLevel ?? -Infinity;
+
+  function setBlock(x: number, y: number, z: number, blockType: string) {
+    if (x < min.x || x > max.x || y < min.y || y > max.y || z < min.z || z > max.z) return true;
+    blocks.set(`${x},${y},${z}`, { ...cellToPosition({ x, y, z }), blockType });
+    return blocks.size <= limit;
+  }
+
+  for (let x = min.x; x <= max.x; x++) {
+    for (let z = min.z; z <= max.z; z++) {
+      const height = surfaceHeight(options, x, z);
+      // Columns that reach no higher than just above the water are beach
+      const shore = height <= waterLevel + 1;
+      const top = Math.min(Math.max(height, waterLevel), max.y + 1);
+
+      for (let y = min.y; y < top; y++) {
+        let blockType = BLOCK_TYPES.WATER_BLOCK.id;
+        if (y === height - 1) {
+          blockType = shore ? BLOCK_TYPES.SAND_BLOCK.id : BLOCK_TYPES.GRASS_BLOCK.id;
+        } else if (y < height - 1 - options.dirtDepth) {
+          blockType = BLOCK_TYPES.STONE_BLOCK.id;
+        } else if (y < height - 1) {
+          blockType = shore ? BLOCK_TYPES.SAND_BLOCK.id : BLOCK_TYPES.DIRT_BLOCK.id;
+        }
+
+        if (!setBlock(x, y, z, blockType)) return null;
+      }
+    }
+  }
+
+  if (options.treeDensity <= 0) return Array.from(blocks.values());
+
+  // Trees go on grass, one at a random spot in the patches picked by the seed
+  // Patches around the bounds count too, their crowns can reach in
+  const firstPatch = {
+    x: Math.floor((min.x - CROWN_RADIUS) / TREE_PATCH_SIZE),
+    z: Math.floor((min.z - CROWN_RADIUS) / TREE_PATCH_SIZE),
+  };
+  const lastPatch = {
+    x: Math.floor((max.x + CROWN_RADIUS) / TREE_PATCH_SIZE),
+    z: Math.floor((max.z + CROWN_RADIUS) / TREE_PATCH_SIZE),
+  };
+
+  // Seeds of their own, so trees don't follow the hills
+  const treeSeed = options.seed + NOISE_OCTAVES;
+
+  for (let patchX = firstPatch.x; patchX <= lastPatch.x; patchX++) {
+    for (let patchZ = firstPatch.z; patchZ <= lastPatch.z; patchZ++) {
+      if (hash(treeSeed, patchX, patchZ) >= options.treeDensity) continue;
+
+      const x = patchX * TREE_PATCH_SIZE + Math.floor(hash(treeSeed + 1, patchX, patchZ) * TREE_PATCH_SIZE);
+      const z = patchZ * TREE_PATCH_SIZE + Math.floor(hash(treeSeed + 2, patchX, patchZ) * TREE_PATCH_SIZE);
+      const ground = surfaceHeight(options, x, z);
+      if (ground <= waterLevel + 1) continue;
+
+      // 4 or 5 blocks tall
+      const trunkHeight = 4 + Math.floor(hash(treeSeed + 3, patchX, patchZ) * 2);
+      const trunkTop = ground + trunkHeight - 1;
+
+      // A wide crown around the top of the trunk with a narrow one on top, without its corners
+      for (let y = trunkTop - 1; y <= trunkTop + CROWN_TOP; y++) {
+        const radius = y < trunkTop ? CROWN_RADIUS : CROWN_RADIUS - 1;
+        for (let dx = -radius; dx <= radius; dx++) {
+          for (let dz = -radius; dz <= radius; dz++) {
+            if (Math.abs(dx) === radius && Math.abs(dz) === radius) continue;
+            if (blocks.has(`${x + dx},${y},${z + dz}`)) continue;
+            if (!setBlock(x + dx, y, z + dz, BLOCK_TYPES.LEAVES_BLOCK.id)) return null;
+          }
+        }
+      }
+
+      for (let y = ground; y <= trunkTop; y++) {
+        if (!setBlock(x, y, z, BLOCK_TYPES.WOOD_BLOCK.id)) return null;
+      }
+    }
+  }
+
+  return Array.from(blocks.values());
+}
@@ -1,19 +1,19 @@
 import * as THREE from "three";
 import { IBlockFaces } from "./blockDefinitions";
-
-// This is the size of each texture in the atlas (in pixels)
-const TEXTURE_SIZE = 16;
-// Texture atlas dimensions
-const ATLAS_WIDTH = 1024;
-const ATLAS_HEIGHT = 512;
-// Calculate textures per row
-const TEXTURES_PER_ROW = ATLAS_WIDTH / TEXTURE_SIZE; // Should be 64
+import {
+  atlasColumns,
+  atlasRows,
+  getTextureManifest,
+  IAtlasInfo,
+  ITextureManifest,
+  locateTexture,
+} from "./textureManifest";
 
 // This function loads a texture atlas and returns a promise that resolves to the loaded texture
-function loadTextureAtlas(): Promise<THREE.Texture> {
+function loadTextureAtlas(source: string): Promise<THREE.Texture> {
   return new Promise((resolve) => {
     const textureLoader = new THREE.TextureLoader();
-    textureLoader.load("/textures.webp", (texture) => {
+    textureLoader.load(source, (texture) => {
       // Configure texture for pixel art
       texture.magFilter = THREE.NearestFilter;
       texture.minFilter = THREE.NearestFilter;
@@ -23,67 +23,124 @@ function loadTextureAtlas(): Promise<THREE.Texture> {
   });
 }
 
-// Cache the texture atlas to avoid loading it multiple times
-let textureAtlasPromise: Promise<THREE.Texture> | null = null;
+// Cache texture atlases by image URL to avoid loading them multiple times
+const textureAtlases: Map<string, Promise<THREE.Texture>> = new Map();
 
-// This function returns a promise that resolves to the texture atlas
-export function getTextureAtlas(): Promise<THREE.Texture> {
-  if (!textureAtlasPromise) {
-    textureAtlasPromise = loadTextureAtlas();
+// Get an atlas image as a texture
+function getAtlasTexture(atlas: IAtlasInfo): Promise<THREE.Texture> {
+  let texture = textureAtlases.get(atlas.source);
+  if (!texture) {
+    texture = loadTextureAtlas(atlas.source);
+    textureAtlases.set(atlas.source, texture);
   }
-  return textureAtlasPromise;
+  return texture;
+}
+
+// Cache one material per atlas image, shared by every block type drawing from it
+const atlasMaterials: Map<string, Promise<THREE.MeshLambertMaterial>> = new Map();
+
+// Get the material that draws from an atlas, block geometries pick cells with their UVs
+function getAtlasMaterial(atlas: IAtlasInfo): Promise<THREE.MeshLambertMaterial> {
+  let material = atlasMaterials.get(atlas.source);
+  if (!material) {
+    material = getAtlasTexture(atlas).then(
+      (texture) =>
+        new THREE.MeshLambertMaterial({
+          map: texture,
+          transparent: false,
+          alphaTest: 0.1,
+        })
+    );
+    atlasMaterials.set(atlas.source, material);
+  }
+  return material;
+}
+
+// Free the atlases the manifest no longer uses: those of a previous texture pack, and the
+// extension atlases of uploaded textures, every upload draws a new one
+// Call it once the block models of the manifest have replaced the ones drawing from the old atlases
+export function releaseUnusedAtlases(manifest: ITextureManifest) {
+  const isUnused = (source: string) =>
+    source !== manifest.atlas.source && source !== manifest.extension?.atlas.source;
+
+  atlasMaterials.forEach((material, source) => {
+    if (!isUnused(source)) return;
+    atlasMaterials.delete(source);
+    material.then((loaded) => loaded.dispose());
+  });
+  textureAtlases.forEach((texture, source) => {
+    if (!isUnused(source)) return;
+    textureAtlases.delete(source);
+    texture.then((loaded) => loaded.dispose());
+  });
 }
 
-// This function creates materials for a block based on the face indices
-export async function createBlockMaterials(faces: IBlockFaces): Promise<THREE.MeshLambertMaterial[]> {
-  const texture = await getTextureAtlas();
+// This function returns a promise that resolves to the atlas of the texture pack in use
+// The atlas image and its geometry come from the texture manifest
+export async function getTextureAtlas(): Promise<THREE.Texture> {
+  return getAtlasTexture((await getTextureManifest()).atlas);
+}
+
+// Order of a BoxGeometry's sides and groups (+x, -x, +y, -y, +z, -z),
+// so side i of the geometry shows face FACE_ORDER[i]
+export const FACE_ORDER: (keyof IBlockFaces)[] = [
+  "right",
+  "left",
+  "top",
+  "bottom",
+  "front",
+  "back"
+];
+
+// Vertices per side of a BoxGeometry with one segment
+const VERTICES_PER_SIDE = 4;
+
+// What a block type is drawn with
+export interface IBlockModel {
+  geometry: THREE.BufferGeometry; // Owned by the block type, its UVs pick each face's texture
+  materials: THREE.Material[]; // Shared atlas materials, never disposed with the block type
+  transparent?: boolean; // Blocks behind it show through, so their sides against it are drawn
+}
+
+// This function creates the model of a block type from its face textures (names or indices)
+// Every block type shares the atlas materials, so a block type only costs a geometry with its own UVs
+export async function createBlockModel(faces: IBlockFaces, transparent = false): Promise<IBlockModel> {
+  // The same manifest for every face, even if the texture pack changes meanwhile
+  const manifest = await getTextureManifest();
   
-  // Create a material for each face
-  const faceIndices = [
-    faces.right,  // Right face
-    faces.left,   // Left face
-    faces.top,    // Top face
-    faces.bottom, // Bottom face
-    faces.front,  // Front face
-    faces.back    // Back face
-  ];
+  // Find each face's texture, uploaded textures come from the extension atlas
+  const faceCells = FACE_ORDER.map((face) => locateTexture(faces[face], manifest));
   
-  // Create an array to hold all materials
-  const materials: THREE.MeshLambertMaterial[] = [];
+  // The atlases the faces draw from, the main one first
+  const atlases: IAtlasInfo[] = [manifest.atlas];
+  faceCells.forEach(({ atlas }) => {
+    if (!atlases.includes(atlas)) atlases.push(atlas);
+  });
+  const materials = await Promise.all(atlases.map(getAtlasMaterial));
   
-  // For each face, create a material with the correct UV mapping
-  for (let i = 0; i < faceIndices.length; i++) {
-    const textureIndex = faceIndices[i];
-    
-    // Calculate the row and column of the texture in the atlas
-    // With 64 textures per row
-    const row = Math.floor(textureIndex / TEXTURES_PER_ROW);
-    const col = textureIndex % TEXTURES_PER_ROW;
-    
-    // Create a new texture with adjusted UVs
-    const faceTexture = texture.clone();
-    
-    // Calculate how much of the texture to use
-    const textureFractionX = 1 / TEXTURES_PER_ROW;
-    const textureFractionY = TEXTURE_SIZE / ATLAS_HEIGHT;
-    
-    // Set the repeat to only show one texture cell
-    faceTexture.repeat.set(textureFractionX, textureFractionY);
-    
-    // Set the offset to show the correct texture cell
-    // The Y coordinate is flipped in threejs (0 is bottom, 1 is top)
-    faceTexture.offset.x = col * textureFractionX;
-    faceTexture.offset.y = 1 - textureFractionY - row * textureFractionY;
+  const geometry = new THREE.BoxGeometry(1, 1, 1);
+  const uv = geometry.getAttribute("uv") as THREE.BufferAttribute;
+  
+  // Map each side's UVs (0 to 1) onto its texture's cell in the atlas
+  faceCells.forEach(({ atlas, index }, side) => {
+    const columns = atlasColumns(atlas);
+    const rows = atlasRows(atlas);
+    const col = index % columns;
+    const row = Math.floor(index / columns);
     
-    // Create a material for this face
-    const material = new THREE.MeshLambertMaterial({
-      map: faceTexture,
-      transparent: false,
-      alphaTest: 0.1,
-    });
+    for (let vertex = side * VERTICES_PER_SIDE; vertex < (side + 1) * VERTICES_PER_SIDE; vertex++) {
+      // The V coordinate is flipped in threejs (0 is bottom, 1 is top)
+      uv.setXY(
+        vertex,
+        (col + uv.getX(vertex)) / columns,
+        1 - (row + 1 - uv.getY(vertex)) / rows
+      );
+    }
     
-    materials.push(material);
-  }
+    // Draw the side with the material of its atlas
+    geometry.groups[side].materialIndex = atlases.indexOf(atlas);
+  });
+  uv.needsUpdate = true;
   
-  return materials;
-} 
\ No newline at end of file
+  return { geometry, materials, transparent };
+}
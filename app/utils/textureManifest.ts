@@ -0,0 +1,215 @@
+import { IUserTexture, TextureRef } from "./blockDefinitions";
+import { buildTextureExtension } from "./userTextures";
+import appManifest from "../../public/textures.json";
+
+// Manifest describing the texture atlas: where it is, its geometry and the names of its textures
+// It lives next to textures.webp and is updated together with it, so swapping in a
+// different atlas (32px or 64px tiles, another shape) needs no code changes
+export const TEXTURE_MANIFEST_SRC = "/textures.json";
+
+// Texture packs imported from resource packs are served by the pack API with their own manifest
+function texturePackManifestSrc(packId: string) {
+  return `/api/packs/${packId}`;
+}
+
+// Geometry of the atlas image, every tool reads it from here
+export interface IAtlasInfo {
+  source: string; // URL of the atlas image
+  tileSize: number; // Size of one texture in pixels
+  width: number; // Atlas width in pixels
+  height: number; // Atlas height in pixels
+}
+
+export interface ITextureManifest {
+  version: number;
+  atlas: IAtlasInfo;
+  textures: { [name: string]: number }; // Texture name to its cell index in the atlas
+  extension?: ITextureExtension; // Textures uploaded by players, added in the browser
+}
+
+// A second atlas with the textures players uploaded, by their custom/ names
+export interface ITextureExtension {
+  atlas: IAtlasInfo;
+  textures: { [name: string]: number };
+}
+
+// Where a texture is drawn from: an atlas and a cell in it
+export interface ITextureCell {
+  atlas: IAtlasInfo;
+  index: number;
+}
+
+// A named texture and where it is in the atlas
+export interface INamedTexture {
+  name: string;
+  index: number;
+}
+
+// Cell shown for names the manifest doesn't know, so a missing texture is visible instead of breaking the block
+const MISSING_TEXTURE_INDEX = 0;
+
+// The atlas that ships with the app, used for anything the manifest leaves out
+// Read from its manifest, so the two can't disagree
+const DEFAULT_ATLAS: IAtlasInfo = appManifest.atlas;
+
+// Fill in defaults, so the rest of the app can rely on every field
+function normalizeManifest(data: any): ITextureManifest {
+  return {
+    version: data?.version ?? 1,
+    atlas: { ...DEFAULT_ATLAS, ...data?.atlas },
+    textures: data?.textures || {},
+  };
+}
+
+// Texture pack in use, null for the atlas that ships with the app
+let activeTexturePack: string | null = null;
+// Textures uploaded by players, drawn into the manifest's extension atlas
+let userTextures: IUserTexture[] = [];
+// Bumped whenever the pack or the uploaded textures change, so stale loads can be told apart
+let texturesVersion = 0;
+const textureListeners: Set<() => void> = new Set();
+
+function notifyTexturesChanged() {
+  texturesVersion++;
+  textureListeners.forEach((listener) => listener());
+}
+
+// Switch every texture lookup to another texture pack (null for the app's own atlas)
+// Materials built before keep their old textures, so owners rebuild them when notified
+export function setTexturePack(packId: string | null) {
+  if (packId === activeTexturePack) return;
+  activeTexturePack = packId;
+  notifyTexturesChanged();
+}
+
+// Set the textures uploaded by players, they are added to the manifest in an extension atlas
+export function setUserTextures(textures: IUserTexture[]) {
+  userTextures = textures;
+  notifyTexturesChanged();
+}
+
+// Current version of the textures, compare it before and after a load to tell if it's stale
+export function getTexturesVersion() {
+  return texturesVersion;
+}
+
+// Get notified when the texture pack or the uploaded textures change, returns a function to stop
+export function onTexturesChange(listener: () => void): () => void {
+  textureListeners.add(listener);
+  return () => {
+    textureListeners.delete(listener);
+  };
+}
+
+// Cache pack manifests by URL to avoid loading them multiple times
+const manifestLoads: Map<string, Promise<ITextureManifest>> = new Map();
+
+// The manifest with the uploaded textures, rebuilt when either changes
+let currentManifest: { version: number; load: Promise<ITextureManifest> } | null = null;
+
+// This function returns a promise that resolves to the manifest of the texture pack in use,
+// with the uploaded textures in its extension atlas
+export function getTextureManifest(): Promise<ITextureManifest> {
+  if (!currentManifest || currentManifest.version !== texturesVersion) {
+    const textures = userTextures;
+    currentManifest = {
+      version: texturesVersion,
+      load: loadPackManifest(activeTexturePack).then(async (manifest) => {
+        if (textures.length === 0) return manifest;
+
+        try {
+          const extension = await buildTextureExtension(textures, manifest.atlas.tileSize);
+          return { ...manifest, extension };
+        } catch (error) {
+          // Faces using uploaded textures show the missing texture instead
+          console.error("Failed to build the uploaded textures atlas:", error);
+          return manifest;
+        }
+      }),
+    };
+  }
+  return currentManifest.load;
+}
+
+// Load the manifest of a texture pack, or of the app's own atlas
+function loadPackManifest(packId: string | null): Promise<ITextureManifest> {
+  const src = packId ? texturePackManifestSrc(packId) : TEXTURE_MANIFEST_SRC;
+
+  let load = manifestLoads.get(src);
+  if (!load) {
+    load = fetch(src)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+        return response.json();
+      })
+      .then(normalizeManifest)
+      .catch((error) => {
+        // Indices keep working with the default atlas, only names go missing
+        console.error("Failed to load texture manifest:", error);
+        return normalizeManifest(null);
+      });
+    manifestLoads.set(src, load);
+  }
+  return load;
+}
+
+// Number of texture columns in the atlas
+export function atlasColumns(atlas: IAtlasInfo) {
+  return Math.floor(atlas.width / atlas.tileSize);
+}
+
+// Number of texture rows in the atlas
+export function atlasRows(atlas: IAtlasInfo) {
+  return Math.floor(atlas.height / atlas.tileSize);
+}
+
+// Get the atlas cell of a texture name or index
+function resolveTexture(texture: TextureRef, manifest: ITextureManifest | null): number {
+  if (typeof texture === "number") return texture;
+
+  const index = manifest?.textures[texture];
+  if (index === undefined) {
+    if (manifest) console.warn(`Unknown texture name: ${texture}`);
+    return MISSING_TEXTURE_INDEX;
+  }
+  return index;
+}
+
+// Find the atlas and cell of a texture, uploaded textures are in the extension atlas
+export function locateTexture(texture: TextureRef, manifest: ITextureManifest): ITextureCell {
+  const extension = manifest.extension;
+  if (typeof texture === "string" && extension && extension.textures[texture] !== undefined) {
+    return { atlas: extension.atlas, index: extension.textures[texture] };
+  }
+  return { atlas: manifest.atlas, index: resolveTexture(texture, manifest) };
+}
+
+// Names by cell index, built once per manifest
+const namesByIndex: WeakMap<ITextureManifest, Map<number, string>> = new WeakMap();
+
+// Get the name of the texture in a cell, if it has one
+export function textureName(index: number, manifest: ITextureManifest | null): string | undefined {
+  if (!manifest) return undefined;
+
+  let names = namesByIndex.get(manifest);
+  if (!names) {
+    names = new Map();
+    for (const [name, cell] of Object.entries(manifest.textures)) {
+      // Keep the first name when a cell has several
+      if (!names.has(cell)) names.set(cell, name);
+    }
+    namesByIndex.set(manifest, names);
+  }
+  return names.get(index);
+}
+
+// Find named textures whose name contains the query, sorted by name
+export function searchTextures(manifest: ITextureManifest | null, query: string): INamedTexture[] {
+  if (!manifest) return [];
+
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, "_");
+  return Object.entries(manifest.textures)
+    .filter(([name]) => name.includes(normalized))
+    .map(([name, index]) => ({ name, index }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,115 @@
+import { readZip } from "./zipReader";
+import { ITextureManifest } from "./textureManifest";
+import { MAX_ATLAS_SIZE, MAX_TILE_SIZE, TEXTURE_NAME_PATTERN } from "./blockValidation";
+
+// A texture pack packed into an atlas in the browser, ready to upload
+export interface IBuiltTexturePack {
+  manifest: ITextureManifest; // The atlas source is filled in by the server
+  atlas: Blob; // PNG image
+}
+
+// Block textures in a resource pack, "blocks" is the folder name packs used before 1.13
+const BLOCK_TEXTURE_PATH = /(?:^|\/)assets\/minecraft\/textures\/blocks?\/([^/]+)\.png$/i;
+
+// Cell 0 is left for names the pack doesn't have, drawn in the classic magenta and black
+const MISSING_TEXTURE_COLORS = ["#f800f8", "#000000"];
+
+// The most common width among the textures, animated ones are frames stacked vertically
+function commonTileSize(images: ImageBitmap[]) {
+  const counts: Map<number, number> = new Map();
+  images.forEach((image) => counts.set(image.width, (counts.get(image.width) || 0) + 1));
+
+  let tileSize = 0;
+  let best = 0;
+  counts.forEach((count, width) => {
+    if (count > best) {
+      tileSize = width;
+      best = count;
+    }
+  });
+  return Math.min(tileSize, MAX_TILE_SIZE);
+}
+
+function drawMissingTexture(ctx: CanvasRenderingContext2D, tileSize: number) {
+  const half = tileSize / 2;
+  for (let i = 0; i < 4; i++) {
+    ctx.fillStyle = MISSING_TEXTURE_COLORS[(i + Math.floor(i / 2)) % 2];
+    ctx.fillRect((i % 2) * half, Math.floor(i / 2) * half, half, half);
+  }
+}
+
+// Pack the block textures of a resource pack .zip into an atlas with a name for each texture
+// Throws with a message for the user if the pack can't be used
+export async function buildTexturePack(zip: ArrayBuffer): Promise<IBuiltTexturePack> {
+  const entries = await readZip(zip, (name) => BLOCK_TEXTURE_PATH.test(name));
+
+  // Decode every texture, skipping names the manifest can't hold and images that don't decode
+  const textures: { name: string; image: ImageBitmap }[] = [];
+  for (const entry of entries) {
+    const name = entry.name.match(BLOCK_TEXTURE_PATH)![1].toLowerCase();
+    if (!TEXTURE_NAME_PATTERN.test(name) || textures.some((texture) => texture.name === name)) {
+      continue;
+    }
+
+    try {
+      const image = await createImageBitmap(new Blob([entry.data], { type: "image/png" }));
+      textures.push({ name, image });
+    } catch {
+      console.warn(`Skipping ${entry.name}: not a readable PNG`);
+    }
+  }
+
+  if (textures.length === 0) {
+    throw new Error("The zip has no block textures (assets/minecraft/textures/block/*.png)");
+  }
+
+  // Sorted by name so the same pack always gets the same cells
+  textures.sort((a, b) => a.name.localeCompare(b.name));
+
+  // A square-ish grid, one cell more for the missing texture
+  const tileSize = commonTileSize(textures.map((texture) => texture.image));
+  const columns = Math.ceil(Math.sqrt(textures.length + 1));
+  const rows = Math.ceil((textures.length + 1) / columns);
+  const width = columns * tileSize;
+  const height = rows * tileSize;
+  if (width > MAX_ATLAS_SIZE || height > MAX_ATLAS_SIZE) {
+    throw new Error(
+      `The pack has too many ${tileSize}px textures to fit in a ${MAX_ATLAS_SIZE}px atlas`
+    );
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Your browser can't draw the texture atlas");
+  ctx.imageSmoothingEnabled = false;
+
+  drawMissingTexture(ctx, tileSize);
+
+  const names: { [name: string]: number } = {};
+  textures.forEach(({ name, image }, i) => {
+    const index = i + 1;
+    // Only the first frame of animated textures, scaled if the texture has another size
+    const frame = Math.min(image.width, image.height);
+    ctx.drawImage(
+      image,
+      0, 0, frame, frame,
+      (index % columns) * tileSize, Math.floor(index / columns) * tileSize, tileSize, tileSize
+    );
+    image.close();
+    names[name] = index;
+  });
+
+  const atlas = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!atlas) throw new Error("Your browser couldn't encode the texture atlas");
+
+  return {
+    manifest: {
+      version: 1,
+      atlas: { source: "", tileSize, width, height },
+      textures: names,
+    },
+    atlas,
+  };
+}
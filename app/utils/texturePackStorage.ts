@@ -0,0 +1,140 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ITextureManifest } from "./textureManifest";
+
+// A texture pack as listed in the pack picker
+export interface ITexturePackMeta {
+  id: string;
+  name: string;
+  tileSize: number;
+  textureCount: number;
+  createdAt: number;
+}
+
+// A stored texture pack, the atlas image is kept separately
+export interface IStoredTexturePack {
+  meta: ITexturePackMeta;
+  manifest: ITextureManifest;
+}
+
+// Storage adapter for texture packs uploaded by players, shared by every room
+export interface ITexturePackStorage {
+  listPacks(): Promise<ITexturePackMeta[]>;
+  loadPack(packId: string): Promise<IStoredTexturePack | null>;
+  loadAtlas(packId: string): Promise<Buffer | null>;
+  savePack(pack: IStoredTexturePack, atlas: Buffer): Promise<void>;
+}
+
+// Keeps texture packs in process memory only (used for tests and ROOM_STORAGE=memory)
+export class MemoryTexturePackStorage implements ITexturePackStorage {
+  private packs: Map<string, IStoredTexturePack> = new Map();
+  private atlases: Map<string, Buffer> = new Map();
+
+  async listPacks(): Promise<ITexturePackMeta[]> {
+    return Array.from(this.packs.values()).map((pack) => ({ ...pack.meta }));
+  }
+
+  async loadPack(packId: string): Promise<IStoredTexturePack | null> {
+    return this.packs.get(packId) || null;
+  }
+
+  async loadAtlas(packId: string): Promise<Buffer | null> {
+    return this.atlases.get(packId) || null;
+  }
+
+  async savePack(pack: IStoredTexturePack, atlas: Buffer): Promise<void> {
+    this.atlases.set(pack.meta.id, atlas);
+    this.packs.set(pack.meta.id, pack);
+  }
+}
+
+// Stores each texture pack as <pack>.png with its details and manifest in <pack>.json
+// Packs never change once uploaded, their id is a hash of their contents
+export class FileTexturePackStorage implements ITexturePackStorage {
+  constructor(private directory: string) {}
+
+  private packPath(packId: string) {
+    return path.join(this.directory, `${packId}.json`);
+  }
+
+  private atlasPath(packId: string) {
+    return path.join(this.directory, `${packId}.png`);
+  }
+
+  // Write to a temp file and rename it into place, so a pack is never half written
+  private async writeFile(target: string, data: string | Buffer) {
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+  }
+
+  async listPacks(): Promise<ITexturePackMeta[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const packs = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.loadPack(file.slice(0, -".json".length)))
+    );
+    return packs
+      .filter((pack): pack is IStoredTexturePack => pack !== null)
+      .map((pack) => pack.meta);
+  }
+
+  async loadPack(packId: string): Promise<IStoredTexturePack | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.packPath(packId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error reading texture pack ${packId} from disk:`, error);
+      }
+      return null;
+    }
+  }
+
+  async loadAtlas(packId: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.atlasPath(packId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error reading texture pack ${packId} atlas from disk:`, error);
+      }
+      return null;
+    }
+  }
+
+  async savePack(pack: IStoredTexturePack, atlas: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // The atlas goes first, a pack is listed once its details are written
+    await this.writeFile(this.atlasPath(pack.meta.id), atlas);
+    await this.writeFile(this.packPath(pack.meta.id), JSON.stringify(pack));
+  }
+}
+
+// Pick the storage adapter from the environment, next to the rooms
+// ROOM_STORAGE=memory keeps everything in process memory,
+// otherwise packs are written to TEXTURE_PACK_STORAGE_DIR (default ./.data/packs)
+export function createTexturePackStorage(): ITexturePackStorage {
+  if (process.env.ROOM_STORAGE === "memory") {
+    return new MemoryTexturePackStorage();
+  }
+
+  const directory =
+    process.env.TEXTURE_PACK_STORAGE_DIR || path.join(process.cwd(), ".data", "packs");
+  return new FileTexturePackStorage(directory);
+}
+
+// Read the width and height of a PNG image, null if the data isn't a PNG
+export function pngSize(data: Buffer): { width: number; height: number } | null {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (data.length < 24 || signature.some((byte, i) => data[i] !== byte)) return null;
+
+  // The IHDR chunk always comes first
+  if (data.toString("ascii", 12, 16) !== "IHDR") return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
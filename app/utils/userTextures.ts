@@ -0,0 +1,143 @@
+import { IUserTexture } from "./blockDefinitions";
+import type { ITextureExtension } from "./textureManifest";
+import {
+  MAX_USER_TEXTURE_SIZE,
+  sanitizeUserTexture,
+  validateUserTexture,
+} from "./blockValidation";
+
+// Textures the user uploaded, kept in the browser across reloads like custom blocks
+const TEXTURE_STORAGE_KEY = "minecraft_builder_custom_textures";
+
+// Uploaded textures are named after their file, e.g. "Company Logo.png" becomes "custom/company_logo"
+export function userTextureName(fileName: string) {
+  const slug = fileName
+    .replace(/\.png$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .substring(0, 48);
+  return `custom/${slug || "texture"}`;
+}
+
+// Replace the textures with the same names, or add them
+export function mergeUserTextures(existing: IUserTexture[], textures: IUserTexture[]): IUserTexture[] {
+  const merged = [...existing];
+  textures.forEach((texture) => {
+    const index = merged.findIndex((current) => current.name === texture.name);
+    if (index >= 0) {
+      merged[index] = texture;
+    } else {
+      merged.push(texture);
+    }
+  });
+  return merged;
+}
+
+// Load the textures saved in this browser
+export function loadSavedTextures(): IUserTexture[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEXTURE_STORAGE_KEY) || "[]");
+    return Array.isArray(saved)
+      ? saved.filter((texture) => validateUserTexture(texture) === null).map(sanitizeUserTexture)
+      : [];
+  } catch (error) {
+    console.error("Failed to load saved textures:", error);
+    return [];
+  }
+}
+
+// Add or update textures in this browser's saved textures
+export function saveTextures(textures: IUserTexture[]) {
+  try {
+    const saved = mergeUserTextures(loadSavedTextures(), textures);
+    localStorage.setItem(TEXTURE_STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error("Failed to save textures:", error);
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The image could not be read"));
+    image.src = src;
+  });
+}
+
+function readDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("The file could not be read"));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Read a PNG picked by the user as a texture, it has to be one tile of the atlas in use
+// Throws with a message for the user if it can't be used
+export async function readTextureUpload(file: File, tileSize: number): Promise<IUserTexture> {
+  if (file.type !== "image/png") {
+    throw new Error("Textures must be PNG images");
+  }
+
+  const image = await readDataUrl(file);
+  if (image.length > MAX_USER_TEXTURE_SIZE) {
+    throw new Error(`The image is too large, textures can be up to ${MAX_USER_TEXTURE_SIZE / 1024}KB`);
+  }
+
+  const { width, height } = await loadImage(image);
+  if (width !== tileSize || height !== tileSize) {
+    throw new Error(
+      `Textures must be ${tileSize}x${tileSize} pixels like the atlas, this one is ${width}x${height}`
+    );
+  }
+
+  return { name: userTextureName(file.name), image };
+}
+
+// Draw the uploaded textures into an atlas of their own, with the tile size of the atlas in use
+// Textures uploaded for a pack with another tile size are scaled
+export async function buildTextureExtension(
+  textures: IUserTexture[],
+  tileSize: number
+): Promise<ITextureExtension> {
+  const columns = Math.ceil(Math.sqrt(textures.length));
+  const rows = Math.ceil(textures.length / columns);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = columns * tileSize;
+  canvas.height = rows * tileSize;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Your browser can't draw the texture atlas");
+  ctx.imageSmoothingEnabled = false;
+
+  const names: { [name: string]: number } = {};
+  for (const [index, texture] of textures.entries()) {
+    try {
+      const image = await loadImage(texture.image);
+      ctx.drawImage(
+        image,
+        (index % columns) * tileSize,
+        Math.floor(index / columns) * tileSize,
+        tileSize,
+        tileSize
+      );
+      names[texture.name] = index;
+    } catch {
+      // Faces using it show the missing texture instead
+      console.warn(`Skipping texture ${texture.name}: the image could not be read`);
+    }
+  }
+
+  return {
+    atlas: {
+      source: canvas.toDataURL("image/png"),
+      tileSize,
+      width: canvas.width,
+      height: canvas.height,
+    },
+    textures: names,
+  };
+}
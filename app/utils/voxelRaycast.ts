@@ -0,0 +1,64 @@
+import { IBlockPosition, ICell, positionToCell, VoxelStore } from "./voxelStore";
+
+// A point or direction in world space (a THREE.Vector3 fits)
+export interface IVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Where a ray first met a block or the ground
+export interface IVoxelHit<T extends IBlockPosition = IBlockPosition> {
+  cell: ICell; // The cell that was hit
+  normal: ICell; // Points out of the side the ray came in through, zero if the ray started inside the cell
+  block?: T; // The block in the cell, undefined when the ground was hit
+  distance: number; // Along the ray, in cells
+}
+
+// Walk the cells a ray passes through in order (Amanatides & Woo grid traversal) and
+// return the first one holding a block, or counting as ground, within maxDistance
+// The cost depends on the distance walked, not on how many blocks there are
+export function raycastVoxels<T extends IBlockPosition>(
+  store: VoxelStore<T>,
+  origin: IVector,
+  direction: IVector,
+  maxDistance: number,
+  isGround: (cell: ICell) => boolean = () => false
+): IVoxelHit<T> | null {
+  const length = Math.hypot(direction.x, direction.y, direction.z);
+  if (length === 0) return null;
+  const dir = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
+
+  const cell = positionToCell(origin.x, origin.y, origin.z);
+  const normal: ICell = { x: 0, y: 0, z: 0 };
+
+  // Which way the ray steps along each axis, how far along the ray one cell is,
+  // and how far along the ray the next cell boundary is
+  const axes = (["x", "y", "z"] as const).map((axis) => {
+    const step = dir[axis] > 0 ? 1 : dir[axis] < 0 ? -1 : 0;
+    const delta = step === 0 ? Infinity : Math.abs(1 / dir[axis]);
+    const boundary = step > 0 ? cell[axis] + 1 : cell[axis];
+    const next = step === 0 ? Infinity : (boundary - origin[axis]) / dir[axis];
+    return { axis, step, delta, next };
+  });
+
+  let distance = 0;
+  while (distance <= maxDistance) {
+    const block = store.get(cell.x, cell.y, cell.z);
+    if (block || isGround(cell)) {
+      return { cell: { ...cell }, normal: { ...normal }, block, distance };
+    }
+
+    // Step into the neighbor across the nearest boundary, entering it through the opposite side
+    const nearest = axes.reduce((best, current) => (current.next < best.next ? current : best));
+    if (nearest.next === Infinity) return null;
+
+    distance = nearest.next;
+    nearest.next += nearest.delta;
+    cell[nearest.axis] += nearest.step;
+    normal.x = normal.y = normal.z = 0;
+    normal[nearest.axis] = -nearest.step;
+  }
+
+  return null;
+}
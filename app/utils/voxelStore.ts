@@ -0,0 +1,199 @@
+// A block as it is stored and sent over the wire
+// x, y and z are the center of the block's cell (integer + 0.5)
+export interface IBlockPosition {
+  x: number;
+  y: number;
+  z: number;
+  blockType?: string;
+  color?: string;
+  id: string;
+}
+
+// Integer coordinates of a cell in the voxel grid
+export interface ICell {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// A box of cells between two corners, both inclusive
+export interface IRegion {
+  min: ICell;
+  max: ICell;
+}
+
+// Get the cell a world position falls in
+export function positionToCell(x: number, y: number, z: number): ICell {
+  return { x: Math.floor(x), y: Math.floor(y), z: Math.floor(z) };
+}
+
+// Get the world position of a cell's center
+export function cellToPosition(cell: ICell): ICell {
+  return { x: cell.x + 0.5, y: cell.y + 0.5, z: cell.z + 0.5 };
+}
+
+// Get the cell a block occupies
+export function blockCell(block: IBlockPosition): ICell {
+  return positionToCell(block.x, block.y, block.z);
+}
+
+function cellKey(x: number, y: number, z: number) {
+  return `${x},${y},${z}`;
+}
+
+// Edge length of a chunk in cells, blocks are meshed and streamed to clients one chunk at a time
+export const CHUNK_SIZE = 16;
+
+// Get the chunk a cell belongs to
+export function chunkOf(cell: ICell): ICell {
+  return {
+    x: Math.floor(cell.x / CHUNK_SIZE),
+    y: Math.floor(cell.y / CHUNK_SIZE),
+    z: Math.floor(cell.z / CHUNK_SIZE),
+  };
+}
+
+export function chunkKey(chunk: ICell) {
+  return cellKey(chunk.x, chunk.y, chunk.z);
+}
+
+// Get the key of the chunk a block is in
+export function blockChunkKey(block: IBlockPosition) {
+  return chunkKey(chunkOf(blockCell(block)));
+}
+
+// Blocks indexed by cell, by id and by chunk, all lookups are O(1)
+export class VoxelStore<T extends IBlockPosition = IBlockPosition> {
+  private byCell: Map<string, T> = new Map();
+  private byId: Map<string, T> = new Map();
+  private byChunk: Map<string, Set<T>> = new Map();
+
+  constructor(blocks: Iterable<T> = []) {
+    for (const block of blocks) {
+      this.add(block);
+    }
+  }
+
+  get size() {
+    return this.byId.size;
+  }
+
+  // Get the block in a cell
+  get(x: number, y: number, z: number): T | undefined {
+    return this.byCell.get(cellKey(x, y, z));
+  }
+
+  // Get the block at a world position (any point inside its cell)
+  getAtPosition(x: number, y: number, z: number): T | undefined {
+    const cell = positionToCell(x, y, z);
+    return this.get(cell.x, cell.y, cell.z);
+  }
+
+  getById(id: string): T | undefined {
+    return this.byId.get(id);
+  }
+
+  has(x: number, y: number, z: number) {
+    return this.byCell.has(cellKey(x, y, z));
+  }
+
+  hasId(id: string) {
+    return this.byId.has(id);
+  }
+
+  // Add a block, returns false if its cell or id is already taken
+  add(block: T): boolean {
+    const cell = blockCell(block);
+    const key = cellKey(cell.x, cell.y, cell.z);
+    if (this.byCell.has(key) || this.byId.has(block.id)) return false;
+
+    this.byCell.set(key, block);
+    this.byId.set(block.id, block);
+
+    const chunk = blockChunkKey(block);
+    const chunkBlocks = this.byChunk.get(chunk);
+    if (chunkBlocks) {
+      chunkBlocks.add(block);
+    } else {
+      this.byChunk.set(chunk, new Set([block]));
+    }
+    return true;
+  }
+
+  // Remove a block by id, returns the removed block
+  removeById(id: string): T | undefined {
+    const block = this.byId.get(id);
+    if (!block) return undefined;
+
+    const cell = blockCell(block);
+    this.byCell.delete(cellKey(cell.x, cell.y, cell.z));
+    this.byId.delete(id);
+
+    const chunk = blockChunkKey(block);
+    const chunkBlocks = this.byChunk.get(chunk);
+    chunkBlocks?.delete(block);
+    if (chunkBlocks?.size === 0) this.byChunk.delete(chunk);
+    return block;
+  }
+
+  // Remove the block in a cell, returns the removed block
+  removeAt(x: number, y: number, z: number): T | undefined {
+    const block = this.get(x, y, z);
+    if (!block) return undefined;
+    return this.removeById(block.id);
+  }
+
+  clear() {
+    this.byCell.clear();
+    this.byId.clear();
+    this.byChunk.clear();
+  }
+
+  values(): IterableIterator<T> {
+    return this.byId.values();
+  }
+
+  toArray(): T[] {
+    return Array.from(this.byId.values());
+  }
+
+  // Get the blocks in a chunk
+  inChunk(chunk: ICell): T[] {
+    return Array.from(this.byChunk.get(chunkKey(chunk)) || []);
+  }
+
+  // Keys of the chunks that have blocks
+  chunkKeys(): IterableIterator<string> {
+    return this.byChunk.keys();
+  }
+
+  // Iterate the blocks whose cells lie within min..max (inclusive)
+  *inRegion(min: ICell, max: ICell): Generator<T> {
+    const volume =
+      (max.x - min.x + 1) * (max.y - min.y + 1) * (max.z - min.z + 1);
+
+    // Scan whichever is smaller: the cells in the region or the stored blocks
+    if (volume <= this.byId.size) {
+      for (let x = min.x; x <= max.x; x++) {
+        for (let y = min.y; y <= max.y; y++) {
+          for (let z = min.z; z <= max.z; z++) {
+            const block = this.get(x, y, z);
+            if (block) yield block;
+          }
+        }
+      }
+      return;
+    }
+
+    for (const block of this.byId.values()) {
+      const cell = blockCell(block);
+      if (
+        cell.x >= min.x && cell.x <= max.x &&
+        cell.y >= min.y && cell.y <= max.y &&
+        cell.z >= min.z && cell.z <= max.z
+      ) {
+        yield block;
+      }
+    }
+  }
+}
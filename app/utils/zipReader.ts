@@ -0,0 +1,97 @@
+// Minimal reader for .zip files in the browser, enough for resource packs:
+// stored and deflated entries, no encryption and no zip64
+
+// A file read from a zip
+export interface IZipEntry {
+  name: string; // Path inside the zip, with forward slashes
+  data: Uint8Array;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Compression methods we can read
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Fixed part of the end of central directory record, it may be followed by a comment of up to 64KB
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// Find the end of central directory record by scanning back from the end of the file
+function findEndRecord(view: DataView): number {
+  const last = view.byteLength - END_RECORD_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_SIZE);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("The file is not a zip archive");
+}
+
+// Decompress a raw deflate stream
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Read the files of a zip whose path passes the filter, folders are skipped
+// Throws with a message for the user if the zip can't be read
+export async function readZip(
+  buffer: ArrayBuffer,
+  filter: (name: string) => boolean
+): Promise<IZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const endRecord = findEndRecord(view);
+  const entryCount = view.getUint16(endRecord + 10, true);
+  let offset = view.getUint32(endRecord + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+
+  const entries: IZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("The zip archive is damaged");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || !filter(name)) continue;
+
+    // Encrypted entries and other compression methods are skipped rather than failing the whole zip
+    if (flags & 0x1 || (method !== METHOD_STORED && method !== METHOD_DEFLATE)) {
+      console.warn(`Skipping ${name} in zip: unsupported encryption or compression`);
+      continue;
+    }
+
+    // The local header repeats the name and may have a different extra field
+    if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error("The zip archive is damaged");
+    }
+    const dataStart =
+      headerOffset +
+      30 +
+      view.getUint16(headerOffset + 26, true) +
+      view.getUint16(headerOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    entries.push({
+      name,
+      data: method === METHOD_DEFLATE ? await inflate(compressed) : compressed,
+    });
+  }
+
+  return entries;
+}